@@ -5,26 +5,30 @@ import autoExternal from 'rollup-plugin-auto-external';
 import dts from 'rollup-plugin-dts';
 import type { RollupOptions } from 'rollup';
 
-const base: RollupOptions = {
-  input: 'src/index.ts',
-  treeshake: {
-    annotations: true,
-    moduleSideEffects: false,
-    propertyReadSideEffects: false,
-    unknownGlobalSideEffects: false,
-  },
+const entries = ['index', 'ip'] as const;
+
+const treeshake: RollupOptions['treeshake'] = {
+  annotations: true,
+  moduleSideEffects: false,
+  propertyReadSideEffects: false,
+  unknownGlobalSideEffects: false,
 };
 
 const runtime: RollupOptions = {
-  ...base,
+  input: Object.fromEntries(entries.map((entry) => [entry, `src/${entry}.ts`])),
+  treeshake,
   output: [
     {
-      file: 'dist/index.mjs',
+      dir: 'dist',
+      entryFileNames: '[name].mjs',
+      chunkFileNames: '[name]-[hash].mjs',
       format: 'esm',
       sourcemap: false,
     },
     {
-      file: 'dist/index.cjs',
+      dir: 'dist',
+      entryFileNames: '[name].cjs',
+      chunkFileNames: '[name]-[hash].cjs',
       format: 'cjs',
       exports: 'named',
       sourcemap: false,
@@ -44,10 +48,10 @@ const runtime: RollupOptions = {
   ],
 };
 
-const typesBuild: RollupOptions = {
-  input: 'src/index.ts',
+const typesBuilds: RollupOptions[] = entries.map((entry) => ({
+  input: `src/${entry}.ts`,
   output: {
-    file: path.resolve('dist', 'index.d.ts'),
+    file: path.resolve('dist', `${entry}.d.ts`),
     format: 'esm',
   },
   plugins: [
@@ -56,6 +60,6 @@ const typesBuild: RollupOptions = {
       respectExternal: true,
     }),
   ],
-};
+}));
 
-export default [runtime, typesBuild];
+export default [runtime, ...typesBuilds];
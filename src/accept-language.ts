@@ -0,0 +1,84 @@
+import type { Optional } from './types';
+
+/**
+ * a basic language range: "*" or 1-8 letters followed by "-"-separated 1-8 alphanumeric
+ * subtags.
+ *
+ * @see https://datatracker.ietf.org/doc/html/rfc4647#section-2.1
+ */
+const LANGUAGE_RANGE = /^(?:\*|[a-z]{1,8}(?:-[a-z0-9]{1,8})*)$/;
+
+/**
+ * @see https://datatracker.ietf.org/doc/html/rfc9110#section-12.4.2
+ */
+const QVALUE = /^(?:0(?:\.\d{0,3})?|1(?:\.0{0,3})?)$/;
+
+export interface AcceptLanguageSettings {
+  readonly primaryOnly: boolean;
+  readonly limit: number;
+}
+
+/**
+ * reduce an accept-language value to its language ranges, most preferred first.
+ *
+ * malformed entries are skipped rather than failing the whole header, ranges with q=0 ("not
+ * acceptable") are dropped, equal weights keep header order, and tags are lowercased. with
+ * `primaryOnly` each range collapses to its primary subtag. duplicates are removed after
+ * collapsing and the list is cut to `limit` entries.
+ *
+ * @see https://datatracker.ietf.org/doc/html/rfc9110#section-12.5.4
+ * @see https://datatracker.ietf.org/doc/html/rfc4647#section-2.1
+ */
+export function parseAcceptLanguage(
+  value: string,
+  settings: AcceptLanguageSettings
+): readonly string[] {
+  const weighted: { range: string; q: number; index: number }[] = [];
+
+  for (const [index, entry] of value.split(',').entries()) {
+    const [rawRange = '', ...params] = entry.split(';');
+    const range = rawRange.trim().toLowerCase();
+    if (!LANGUAGE_RANGE.test(range)) continue;
+
+    let q = 1;
+    let valid = true;
+
+    for (const param of params) {
+      const match = /^\s*q\s*=\s*(\S*)\s*$/i.exec(param);
+      if (match === null || !QVALUE.test(match[1]!)) {
+        valid = false;
+        break;
+      }
+      q = Number(match[1]);
+    }
+
+    if (valid && q > 0) weighted.push({ range, q, index });
+  }
+
+  weighted.sort((a, b) => b.q - a.q || a.index - b.index);
+
+  const ranges: string[] = [];
+  for (const { range } of weighted) {
+    const tag = settings.primaryOnly ? range.split('-')[0]! : range;
+    if (ranges.includes(tag)) continue;
+    ranges.push(tag);
+    if (ranges.length === settings.limit) break;
+  }
+
+  return ranges;
+}
+
+/**
+ * the accept-language trait: the normalized ranges joined with ",", or null when the header is
+ * missing or holds no usable range.
+ */
+export function extractAcceptLanguage(
+  headers: Headers,
+  settings: AcceptLanguageSettings
+): Optional<string> {
+  const value = headers.get('accept-language');
+  if (value === null) return null;
+
+  const ranges = parseAcceptLanguage(value, settings);
+  return ranges.length === 0 ? null : ranges.join(',');
+}
@@ -0,0 +1,87 @@
+import { parseCookies } from './cookies';
+import { sha256Hex } from './hash';
+import type {
+  ActorSource,
+  FingerprintSource,
+  Optional,
+  Possible,
+} from './types';
+
+const textEncoder = new TextEncoder();
+
+/** rfc 9110 token, which is what both header and cookie names are. */
+const TOKEN = /^[!#$%&'*+\-.^_`|~0-9A-Za-z]+$/;
+
+/**
+ * `Authorization: Bearer <token68>`. the scheme is case-insensitive.
+ *
+ * @see https://datatracker.ietf.org/doc/html/rfc6750#section-2.1
+ */
+const BEARER = /^bearer +([A-Za-z0-9\-._~+/]+=*)$/i;
+
+/**
+ * walk the actor sources in order and return the first usable credential, hashed, or null
+ * to anchor on the ip. an `ip` step ends the walk.
+ *
+ * @throws {TypeError} if a header or cookie step is not named by a token
+ */
+export function resolveActor(
+  source: FingerprintSource,
+  sources: readonly ActorSource[]
+): Optional<string> {
+  for (const step of sources) {
+    if (
+      (step.kind === 'header' || step.kind === 'cookie') &&
+      !TOKEN.test(step.name)
+    ) {
+      throw new TypeError(
+        `invalid actor source ${step.kind} name: ${step.name}`
+      );
+    }
+  }
+
+  let cookies: Optional<ReadonlyMap<string, string>> = null;
+
+  for (const step of sources) {
+    if (step.kind === 'ip') return null;
+
+    let value: Possible<string>;
+    let label: string;
+
+    switch (step.kind) {
+      case 'header':
+        value = source.headers.get(step.name)?.trim();
+        label = step.name.toLowerCase();
+        break;
+      case 'bearer':
+        value = BEARER.exec(
+          source.headers.get('authorization')?.trim() ?? ''
+        )?.[1];
+        label = '';
+        break;
+      case 'cookie':
+        cookies ??= parseCookies(source.headers.get('cookie') ?? '');
+        value = cookies.get(step.name);
+        label = step.name;
+        break;
+    }
+
+    if (value === undefined || value === '') continue;
+    if (step.validate !== undefined && !step.validate(value)) continue;
+
+    return `${step.kind}:${hashCredential(step.kind, label, value)}`;
+  }
+
+  return null;
+}
+
+/**
+ * the kind and name go into the digest so one value seen in two places is two actors, and
+ * only a 128-bit prefix is kept, which is plenty to keep actors apart in a rate limiter.
+ */
+function hashCredential(kind: string, name: string, value: string): string {
+  return sha256Hex(textEncoder.encode(`${kind}\0${name}\0${value}`)).slice(
+    0,
+    32
+  );
+}
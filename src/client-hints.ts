@@ -0,0 +1,128 @@
+import { isSfInnerList, parseSfItem, parseSfList } from './structured-fields';
+import type { Optional } from './types';
+
+/**
+ * the user-agent client hints a browser sends by default, normalized.
+ */
+export interface ClientHints {
+  /** `<brand>/<major>` entries sorted by brand, grease brands removed. */
+  readonly brands: readonly string[];
+  readonly platform: Optional<string>;
+  readonly mobile: Optional<boolean>;
+}
+
+/**
+ * chromium adds a made-up brand in a random position ("Not-A.Brand", "Not A(Brand",
+ * ";Not A Brand", "Not_A Brand", ...) so servers don't hard-code the list. it carries no
+ * information. `_` is one of the grease characters but not matched by `\W`.
+ *
+ * @see https://wicg.github.io/ua-client-hints/#grease
+ */
+const GREASE_BRAND = /^[\W_]*not[\W_]+a[\W_]+brand[\W_]*$/i;
+
+/**
+ * the brand names browsers send, mapped to the family names used by normalizeUserAgent so
+ * a key does not depend on which of the two sources it came from.
+ */
+const BRAND_FAMILIES: ReadonlyMap<string, string> = new Map([
+  ['google chrome', 'chrome'],
+  ['chromium', 'chrome'],
+  ['microsoft edge', 'edge'],
+  ['opera', 'opera'],
+  ['opera gx', 'opera'],
+  ['samsung internet', 'samsung'],
+  ['yandex', 'yandex'],
+  ['yabrowser', 'yandex'],
+  ['brave', 'brave'],
+  ['vivaldi', 'vivaldi'],
+]);
+
+/**
+ * `Sec-CH-UA-Platform` values mapped to the os names used by normalizeUserAgent.
+ *
+ * @see https://wicg.github.io/ua-client-hints/#sec-ch-ua-platform
+ */
+const PLATFORMS: ReadonlyMap<string, string> = new Map([
+  ['windows', 'windows'],
+  ['macos', 'macos'],
+  ['ios', 'ios'],
+  ['android', 'android'],
+  ['chrome os', 'chromeos'],
+  ['chromeos', 'chromeos'],
+  ['linux', 'linux'],
+]);
+
+/**
+ * read `Sec-CH-UA`, `Sec-CH-UA-Platform` and `Sec-CH-UA-Mobile` as rfc 8941 structured fields.
+ * a header that is missing or fails to parse contributes nothing.
+ *
+ * @see https://wicg.github.io/ua-client-hints/#http-ua-hints
+ * @see https://datatracker.ietf.org/doc/html/rfc8941
+ */
+export function extractClientHints(headers: Headers): ClientHints {
+  return {
+    brands: readBrands(headers.get('sec-ch-ua')),
+    platform: readPlatform(headers.get('sec-ch-ua-platform')),
+    mobile: readMobile(headers.get('sec-ch-ua-mobile')),
+  };
+}
+
+function readBrands(value: Optional<string>): readonly string[] {
+  if (value === null) return [];
+  const members = parseSfList(value);
+  if (members === null) return [];
+
+  const brands = new Set<string>();
+
+  for (const member of members) {
+    if (isSfInnerList(member) || typeof member.value !== 'string') continue;
+    if (GREASE_BRAND.test(member.value)) continue;
+
+    const brand = member.value.trim().toLowerCase();
+    if (brand === '') continue;
+
+    const version = member.params.get('v');
+    const major =
+      typeof version === 'string' ? /^\d+/.exec(version)?.[0] : undefined;
+
+    brands.add(major === undefined ? brand : `${brand}/${Number(major)}`);
+  }
+
+  return [...brands].sort();
+}
+
+function readPlatform(value: Optional<string>): Optional<string> {
+  if (value === null) return null;
+  const item = parseSfItem(value);
+  if (item === null || typeof item.value !== 'string') return null;
+
+  const platform = item.value.trim().toLowerCase();
+  if (platform === '' || platform === 'unknown') return null;
+  return PLATFORMS.get(platform) ?? 'other';
+}
+
+function readMobile(value: Optional<string>): Optional<boolean> {
+  if (value === null) return null;
+  const item = parseSfItem(value);
+  return typeof item?.value === 'boolean' ? item.value : null;
+}
+
+/**
+ * the browser part of the coarse user-agent token ("chrome/124") from client hints, or null
+ * when the brands name no known browser. the most specific brand wins: a fork such as edge
+ * over the chromium brand it also lists.
+ */
+export function clientHintsProduct(hints: ClientHints): Optional<string> {
+  let best: Optional<string> = null;
+
+  for (const entry of hints.brands) {
+    const [brand = '', major] = entry.split('/');
+    const family = BRAND_FAMILIES.get(brand);
+    if (family === undefined) continue;
+
+    best = major === undefined ? family : `${family}/${major}`;
+    if (family !== 'chrome') break;
+  }
+
+  return best;
+}
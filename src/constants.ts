@@ -1,3 +1,11 @@
+import type {
+  BuiltinIpHeaderParser,
+  EdgeHeaders,
+  IpClass,
+  IpPreset,
+  TlsFingerprintFormat,
+} from './types';
+
 /**
  * @see https://datatracker.ietf.org/doc/rfc9923/
  */
@@ -37,6 +45,114 @@ export const DEFAULT_IP_HEADERS = [
   'x-real-ip',
 ] as const;
 
+/**
+ * ip extraction settings for common edge providers, selected with the `preset` option.
+ *
+ * each preset lists only headers the provider overwrites (or appends to) on every request,
+ * in the order they should be trusted, plus the hop count for headers the provider appends
+ * to rather than replaces. explicit `ipHeaders` and `trustedHops` still win over a preset.
+ * headers that depend on a provider setting live in their own opt-in preset, since without
+ * that setting a client-sent copy reaches the origin unchanged.
+ *
+ * provider quirks:
+ * - cloudflare: with pseudo ipv4 in "overwrite headers" mode, cf-connecting-ip carries a
+ *   class e placeholder and the real address moves to cf-connecting-ipv6. cloudflare only
+ *   sets cf-connecting-ipv6 in that mode, so it is read by cloudflare-pseudo-ipv4 alone.
+ * - vercel: x-forwarded-for is overwritten by vercel but can be replaced again by a proxy in
+ *   front of it; x-vercel-forwarded-for is the copy that survives that.
+ * - aws alb and cloudfront append the peer to x-forwarded-for. cloudfront-viewer-address
+ *   carries "ip:port" with an unbracketed ipv6 and must be enabled in an origin request policy.
+ * - google cloud load balancing appends "<client>,<load balancer>", so the client is two hops
+ *   from the right.
+ * - akamai appends the peer to x-forwarded-for and only sets true-client-ip when the
+ *   property enables it, so true-client-ip is read by akamai-true-client-ip alone.
+ * - azure front door sets x-azure-clientip; x-azure-socketip is the tcp peer of the edge.
+ * - envoy sets x-envoy-external-address only for requests it considers external.
+ *
+ * @see https://developers.cloudflare.com/fundamentals/reference/http-headers/
+ * @see https://vercel.com/docs/headers/request-headers
+ * @see https://docs.aws.amazon.com/elasticloadbalancing/latest/application/x-forwarded-headers.html
+ * @see https://docs.aws.amazon.com/AmazonCloudFront/latest/DeveloperGuide/adding-cloudfront-headers.html
+ * @see https://cloud.google.com/load-balancing/docs/https#x-forwarded-for_header
+ * @see https://learn.microsoft.com/en-us/azure/frontdoor/front-door-http-headers-protocol
+ * @see https://www.envoyproxy.io/docs/envoy/latest/configuration/http/http_conn_man/headers
+ */
+export const IP_PRESETS = {
+  cloudflare: { ipHeaders: ['cf-connecting-ip'] },
+  'cloudflare-pseudo-ipv4': {
+    ipHeaders: ['cf-connecting-ipv6', 'cf-connecting-ip'],
+  },
+  fastly: { ipHeaders: ['fastly-client-ip'] },
+  fly: { ipHeaders: ['fly-client-ip'] },
+  vercel: {
+    ipHeaders: ['x-vercel-forwarded-for', 'x-real-ip', 'x-forwarded-for'],
+  },
+  'aws-alb': {
+    ipHeaders: ['x-forwarded-for'],
+    trustedHops: { 'x-forwarded-for': 1 },
+  },
+  'aws-cloudfront': {
+    ipHeaders: ['cloudfront-viewer-address', 'x-forwarded-for'],
+    trustedHops: { 'x-forwarded-for': 1 },
+  },
+  gcp: {
+    ipHeaders: ['x-forwarded-for'],
+    trustedHops: { 'x-forwarded-for': 2 },
+  },
+  akamai: {
+    ipHeaders: ['x-forwarded-for'],
+    trustedHops: { 'x-forwarded-for': 1 },
+  },
+  'akamai-true-client-ip': {
+    ipHeaders: ['true-client-ip', 'x-forwarded-for'],
+    trustedHops: { 'x-forwarded-for': 1 },
+  },
+  azure: {
+    ipHeaders: ['x-azure-clientip', 'x-forwarded-for'],
+    trustedHops: { 'x-forwarded-for': 1 },
+  },
+  envoy: { ipHeaders: ['x-envoy-external-address'] },
+} as const satisfies Record<string, IpPreset>;
+
+/**
+ * built-in parsers applied to well-known ip headers. headers not listed here (and not
+ * registered through `ipHeaderParsers`) are read as a single ip literal.
+ *
+ * @see https://datatracker.ietf.org/doc/html/rfc7239
+ */
+export const DEFAULT_IP_HEADER_PARSERS = {
+  forwarded: 'forwarded',
+  'x-forwarded-for': 'x-forwarded-for',
+  'x-vercel-forwarded-for': 'x-forwarded-for',
+  'cloudfront-viewer-address': 'address-port',
+} as const satisfies Record<string, BuiltinIpHeaderParser>;
+
+/**
+ * headers carrying edge-provided network attributes, read in order when the attribute is
+ * enabled through `edgeTraits`. on cloudflare workers `request.cf` is consulted first.
+ *
+ * like ip headers these are only trustworthy when your edge overwrites them.
+ *
+ * provider quirks:
+ * - cloudflare: cf-ipcountry is "XX" when unknown and "T1" for tor; cf-ray ends in the colo.
+ * - cloudfront: the viewer headers must be enabled in an origin request policy; x-amz-cf-pop
+ *   is the pop id such as "IAD89-C1".
+ * - vercel: x-vercel-id starts with the edge region, such as "fra1::".
+ * - fly: fly-region is the edge region that accepted the request.
+ * - fastly sends no geo headers by default; set them in vcl from client.geo.country_code and
+ *   client.as.number and list them through `edgeHeaders`.
+ *
+ * @see https://developers.cloudflare.com/fundamentals/reference/http-headers/
+ * @see https://docs.aws.amazon.com/AmazonCloudFront/latest/DeveloperGuide/adding-cloudfront-headers.html
+ * @see https://vercel.com/docs/headers/request-headers
+ * @see https://fly.io/docs/networking/request-headers/
+ */
+export const DEFAULT_EDGE_HEADERS = {
+  asn: ['cloudfront-viewer-asn'],
+  country: ['cf-ipcountry', 'x-vercel-ip-country', 'cloudfront-viewer-country'],
+  colo: ['cf-ray', 'x-amz-cf-pop', 'x-vercel-id', 'fly-region'],
+} as const satisfies EdgeHeaders;
+
 /**
  * tokens that frequently show up as placeholders in proxy chains.
  *
@@ -45,3 +161,130 @@ export const DEFAULT_IP_HEADERS = [
  * @see https://datatracker.ietf.org/doc/html/rfc7239
  */
 export const INVALID_IP_TOKENS = new Set(['', 'unknown', 'null', 'none']);
+
+/**
+ * cidr ranges behind the express-style keywords accepted in `trustedProxies`.
+ *
+ * @see https://expressjs.com/en/guide/behind-proxies.html
+ * @see https://datatracker.ietf.org/doc/html/rfc1918
+ * @see https://datatracker.ietf.org/doc/html/rfc4193
+ */
+export const TRUSTED_PROXY_KEYWORDS = {
+  loopback: ['127.0.0.0/8', '::1/128'],
+  linklocal: ['169.254.0.0/16', 'fe80::/10'],
+  uniquelocal: ['10.0.0.0/8', '172.16.0.0/12', '192.168.0.0/16', 'fc00::/7'],
+} as const satisfies Record<string, readonly string[]>;
+
+/**
+ * iana special-purpose address blocks, first match wins, so narrower blocks come before the
+ * blocks that contain them. globally reachable carve-outs map to "public".
+ *
+ * ipv4 addresses not listed here are public. ipv6 addresses not listed here are public inside
+ * the global unicast space 2000::/3 and reserved outside of it.
+ *
+ * @see https://www.iana.org/assignments/iana-ipv4-special-registry/iana-ipv4-special-registry.xhtml
+ * @see https://www.iana.org/assignments/iana-ipv6-special-registry/iana-ipv6-special-registry.xhtml
+ * @see https://datatracker.ietf.org/doc/html/rfc6890
+ */
+export const SPECIAL_PURPOSE_IP_RANGES: readonly (readonly [
+  string,
+  IpClass,
+])[] = [
+  ['0.0.0.0/8', 'unspecified'],
+  ['10.0.0.0/8', 'private'],
+  ['100.64.0.0/10', 'shared'],
+  ['127.0.0.0/8', 'loopback'],
+  ['169.254.0.0/16', 'linklocal'],
+  ['172.16.0.0/12', 'private'],
+  ['192.0.0.9/32', 'public'],
+  ['192.0.0.10/32', 'public'],
+  ['192.0.0.0/24', 'reserved'],
+  ['192.0.2.0/24', 'documentation'],
+  ['192.88.99.0/24', 'reserved'],
+  ['192.168.0.0/16', 'private'],
+  ['198.18.0.0/15', 'benchmarking'],
+  ['198.51.100.0/24', 'documentation'],
+  ['203.0.113.0/24', 'documentation'],
+  ['224.0.0.0/4', 'multicast'],
+  ['255.255.255.255/32', 'broadcast'],
+  ['240.0.0.0/4', 'reserved'],
+  ['::ffff:0:0/96', 'public'],
+  ['::/128', 'unspecified'],
+  ['::1/128', 'loopback'],
+  ['64:ff9b::/96', 'public'],
+  ['64:ff9b:1::/48', 'private'],
+  ['100::/64', 'reserved'],
+  ['100:0:0:1::/64', 'reserved'],
+  ['2001::/32', 'public'],
+  ['2001:1::1/128', 'public'],
+  ['2001:1::2/128', 'public'],
+  ['2001:1::3/128', 'public'],
+  ['2001:2::/48', 'benchmarking'],
+  ['2001:3::/32', 'public'],
+  ['2001:4:112::/48', 'public'],
+  ['2001:20::/28', 'public'],
+  ['2001:30::/28', 'public'],
+  ['2001::/23', 'reserved'],
+  ['2001:db8::/32', 'documentation'],
+  ['2002::/16', 'public'],
+  ['3fff::/20', 'documentation'],
+  ['5f00::/16', 'reserved'],
+  ['fc00::/7', 'uniquelocal'],
+  ['fe80::/10', 'linklocal'],
+  ['ff00::/8', 'multicast'],
+  ['2000::/3', 'public'],
+];
+
+/**
+ * headers read for the tls fingerprint when `includeTlsFingerprint` is set, per format.
+ *
+ * like ip headers these are only trustworthy when your edge overwrites them.
+ *
+ * provider quirks:
+ * - cloudflare: ja3/ja4 need bot management and are not sent to the origin by default; add
+ *   them with a request header transform rule from cf.bot_management.ja4 and
+ *   cf.bot_management.ja3_hash. workers read them from `request.cf` instead.
+ * - cloudfront: the viewer fingerprint headers must be enabled in an origin request policy.
+ *
+ * @see https://developers.cloudflare.com/bots/additional-configurations/ja3-ja4-fingerprint/
+ * @see https://docs.aws.amazon.com/AmazonCloudFront/latest/DeveloperGuide/adding-cloudfront-headers.html
+ */
+export const DEFAULT_TLS_FINGERPRINT_HEADERS = {
+  ja4: ['cf-ja4', 'cloudfront-viewer-ja4-fingerprint'],
+  ja3: ['cf-ja3-hash', 'cloudfront-viewer-ja3-fingerprint'],
+} as const satisfies Record<TlsFingerprintFormat, readonly string[]>;
+
+/**
+ * header names left out of the header order by default. two kinds:
+ * - added or rewritten on the way in by proxies and edge providers, so they say nothing
+ *   about the client and move when the infrastructure changes.
+ * - sent or not depending on state rather than on the client: cookies, conditional and
+ *   cache headers, referer and origin, and body headers that follow the method.
+ */
+export const DEFAULT_HEADER_ORDER_IGNORE = [
+  'forwarded',
+  'x-forwarded-*',
+  'x-real-ip',
+  'x-client-ip',
+  'true-client-ip',
+  'via',
+  'cdn-loop',
+  'cf-*',
+  'cloudfront-*',
+  'x-amz-*',
+  'x-amzn-*',
+  'x-vercel-*',
+  'fly-*',
+  'x-request-id',
+  'traceparent',
+  'tracestate',
+  'cookie',
+  'authorization',
+  'referer',
+  'origin',
+  'if-*',
+  'cache-control',
+  'pragma',
+  'content-length',
+  'content-type',
+] as const satisfies readonly string[];
@@ -0,0 +1,30 @@
+/**
+ * parse a `Cookie` request header into name -> value. lenient like browsers and servers are:
+ * pairs without `=` or with an empty name are skipped, spaces around names and values are
+ * trimmed and one pair of surrounding quotes is removed. values are not percent-decoded.
+ *
+ * when a name repeats the first pair wins. browsers send cookies with longer paths first,
+ * so that is the most specific one.
+ *
+ * @see https://datatracker.ietf.org/doc/html/rfc6265#section-4.2.1
+ * @see https://datatracker.ietf.org/doc/html/rfc6265#section-5.4
+ */
+export function parseCookies(value: string): ReadonlyMap<string, string> {
+  const cookies = new Map<string, string>();
+
+  for (const pair of value.split(';')) {
+    const eq = pair.indexOf('=');
+    if (eq < 0) continue;
+
+    const name = pair.slice(0, eq).trim();
+    if (name === '' || cookies.has(name)) continue;
+
+    let cookie = pair.slice(eq + 1).trim();
+    if (cookie.length >= 2 && cookie.startsWith('"') && cookie.endsWith('"')) {
+      cookie = cookie.slice(1, -1);
+    }
+    cookies.set(name, cookie);
+  }
+
+  return cookies;
+}
@@ -0,0 +1,150 @@
+import { DEFAULT_EDGE_HEADERS } from './constants';
+import type {
+  EdgeBotClass,
+  EdgeHeaders,
+  EdgeTrait,
+  EdgeTraitRoles,
+  FingerprintSource,
+  Optional,
+  Possible,
+} from './types';
+
+/**
+ * edge attributes in the order they appear in `parts`.
+ */
+export const EDGE_TRAITS = [
+  'asn',
+  'country',
+  'colo',
+  'bot',
+] as const satisfies readonly EdgeTrait[];
+
+export interface EdgeAttributes {
+  readonly asn: Optional<number>;
+  readonly country: Optional<string>;
+  readonly colo: Optional<string>;
+  readonly bot: Optional<EdgeBotClass>;
+}
+
+const MAX_ASN = 0xffffffff;
+
+/**
+ * read the attributes enabled in `roles` from cloudflare's `request.cf`, then from headers.
+ * attributes that are not enabled, or that no source carries, are null.
+ */
+export function extractEdgeAttributes(
+  source: FingerprintSource,
+  roles: Possible<EdgeTraitRoles>,
+  headers: Possible<EdgeHeaders>
+): EdgeAttributes {
+  if (roles === undefined) {
+    return { asn: null, country: null, colo: null, bot: null };
+  }
+
+  const cf = readCf(source);
+
+  const fromHeaders = <T>(
+    trait: Exclude<EdgeTrait, 'bot'>,
+    normalize: (value: unknown) => Optional<T>
+  ): Optional<T> => {
+    for (const name of headers?.[trait] ?? DEFAULT_EDGE_HEADERS[trait]) {
+      const value = normalize(source.headers.get(name));
+      if (value !== null) return value;
+    }
+    return null;
+  };
+
+  return {
+    asn:
+      roles.asn === undefined
+        ? null
+        : normalizeAsn(cf?.asn) ?? fromHeaders('asn', normalizeAsn),
+    country:
+      roles.country === undefined
+        ? null
+        : normalizeCountry(cf?.country) ??
+          fromHeaders('country', normalizeCountry),
+    colo:
+      roles.colo === undefined
+        ? null
+        : normalizeColo(cf?.colo) ?? fromHeaders('colo', normalizeColo),
+    bot: roles.bot === undefined ? null : classifyBot(cf?.botManagement),
+  };
+}
+
+/**
+ * `request.cf` on a workers request, or the `cf` field of a plain source object.
+ */
+export function readCf(
+  source: FingerprintSource
+): Optional<Record<string, unknown>> {
+  if (!('cf' in source)) return null;
+  const cf: unknown = source.cf;
+  return typeof cf === 'object' && cf !== null
+    ? (cf as Record<string, unknown>)
+    : null;
+}
+
+/**
+ * a positive 32-bit asn, from a number or from text such as "13335" or "AS13335".
+ * as0 is reserved and means "no asn".
+ */
+export function normalizeAsn(value: unknown): Optional<number> {
+  let asn: number;
+
+  if (typeof value === 'number') {
+    asn = value;
+  } else if (typeof value === 'string') {
+    const match = /^(?:as)?(\d{1,10})$/i.exec(value.trim());
+    if (match === null) return null;
+    asn = Number.parseInt(match[1]!, 10);
+  } else {
+    return null;
+  }
+
+  return Number.isInteger(asn) && asn > 0 && asn <= MAX_ASN ? asn : null;
+}
+
+/**
+ * an upper-case two-character country code. cloudflare's "XX" (unknown) becomes null; its
+ * "T1" (tor) is kept.
+ */
+export function normalizeCountry(value: unknown): Optional<string> {
+  if (typeof value !== 'string') return null;
+  const code = value.trim().toUpperCase();
+  if (!/^[A-Z][A-Z0-9]$/.test(code) || code === 'XX') return null;
+  return code;
+}
+
+/**
+ * the iata code of an edge location, from a bare code ("IAD"), a cf-ray ("8a1b2c3d-IAD"), a
+ * cloudfront pop id ("IAD89-C1") or a vercel or fly region ("iad1::abc", "iad").
+ */
+export function normalizeColo(value: unknown): Optional<string> {
+  if (typeof value !== 'string') return null;
+  const trimmed = value.trim().toUpperCase();
+
+  const dash = trimmed.lastIndexOf('-');
+  if (dash >= 0 && /^[A-Z]{3}$/.test(trimmed.slice(dash + 1))) {
+    return trimmed.slice(dash + 1);
+  }
+
+  return /^([A-Z]{3})(?![A-Z])/.exec(trimmed)?.[1] ?? null;
+}
+
+/**
+ * cloudflare bot management: verified bots first, then the score bands. a score of 0 means
+ * the request was not scored.
+ *
+ * @see https://developers.cloudflare.com/bots/concepts/bot-score/
+ */
+export function classifyBot(value: unknown): Optional<EdgeBotClass> {
+  if (typeof value !== 'object' || value === null) return null;
+  const { score, verifiedBot } = value as Record<string, unknown>;
+
+  if (verifiedBot === true) return 'verified';
+  if (typeof score !== 'number' || !Number.isInteger(score)) return null;
+  if (score < 1 || score > 99) return null;
+  if (score === 1) return 'automated';
+  return score < 30 ? 'likely-automated' : 'likely-human';
+}
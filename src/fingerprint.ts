@@ -1,16 +1,42 @@
 import type {
+  FingerprintLevels,
   FingerprintSource,
   FingerprintOptions,
   FingerprintResult,
   FingerprintTraits,
   HashFunction,
+  IpBucketOptions,
+  IpSource,
   Optional,
+  Possible,
 } from './types';
-import { DEFAULT_IP_HEADERS } from './constants';
+import { extractAcceptLanguage } from './accept-language';
+import { resolveActor } from './actor';
+import type { AcceptLanguageSettings } from './accept-language';
+import { extractClientHints } from './client-hints';
+import type { ClientHints } from './client-hints';
+import { extractEdgeAttributes } from './edge';
+import type { EdgeAttributes } from './edge';
 import { fnv1a64Hex } from './hash';
-import { extractClientIp } from './ip-extraction';
-import { extractMethod, extractPath, buildParts } from './utils';
-import { normalizeIpForBucket } from './ip-subnet';
+import { extractHeaderOrder } from './header-order';
+import { explainClientIp, resolveClientIp } from './ip-extraction';
+import type { ResolvedClientIp } from './ip-extraction';
+import { checkIpLists } from './ip-lists';
+import { detectSpoofingSignals } from './ip-signals';
+import { extractTlsFingerprint } from './tls-fingerprint';
+import { compileTraitPlugins, extractPluginTraits } from './trait-plugins';
+import {
+  extractMethod,
+  extractPath,
+  extractPeerAddress,
+  resolveIpSettings,
+  buildParts,
+} from './utils';
+import type { PeerAddress } from './utils';
+import { classifyIp } from './ip-class';
+import { bucketIp, formatIpBucket } from './ip-subnet';
+import type { IpBucket } from './ip-subnet';
+import { extractUserAgent } from './user-agent';
 
 const textEncoder = new TextEncoder();
 
@@ -26,6 +52,19 @@ function normalizeActorId(
   return trimmed === '' ? null : trimmed;
 }
 
+/**
+ * Extraction only knows about "the peer". Relabels a peer-sourced IP as
+ * `proxy-protocol` when the peer address came from a PROXY protocol header.
+ */
+function attributePeer<T extends ResolvedClientIp>(
+  resolved: T,
+  peer: PeerAddress
+): T {
+  return resolved.source === 'peer'
+    ? { ...resolved, source: peer.source }
+    : resolved;
+}
+
 /**
  * Derives an abuse-aware identity key suitable for request shaping such as
  * rate limiting, quotas, and throttling.
@@ -39,16 +78,26 @@ function normalizeActorId(
  * when a trusted, authenticated identity is available (e.g. a session ID, API
  * key, or user ID).
  *
- * When `actorId` is absent or blank, identity anchors on the client IP
+ * Otherwise `actorSources` can find the actor in the request itself: an API
+ * key header, a bearer token or a session cookie, tried in order. A matched
+ * credential is hashed before it becomes `actorId`, so secrets never appear
+ * in `traits` or `parts`.
+ *
+ * When there is no actor, identity anchors on the client IP
  * address, normalized to a subnet bucket via {@link normalizeIpForBucket}.
- * The two anchors are never mixed.
+ * With `nonPublicIps: 'bucket'`, a special-purpose client address anchors on
+ * its {@link IpClass} instead. The two anchors are never mixed.
  *
  * ### Scoping
  *
- * `includeMethod` and `includePath` append the HTTP method and URL pathname to
- * the key, partitioning the key space so that different operations on the same
- * identity produce distinct fingerprints. Scoping dimensions are not treated
- * as identity entropy, they are purely additive namespace separators.
+ * `includeUserAgent`, `includeClientHints`, `includeAcceptLanguage`,
+ * `includeTlsFingerprint`, `includeHeaderOrder`, `includeMethod` and
+ * `includePath` append the normalized User-Agent, the User-Agent Client Hints,
+ * the preferred languages, the JA4 or JA3 TLS fingerprint, a hash of the header
+ * order, the HTTP method and the URL pathname to the key, partitioning the key
+ * space so that different operations on the same identity produce distinct
+ * fingerprints. Scoping dimensions are not treated as identity entropy, they
+ * are purely additive namespace separators.
  *
  * ### Trust model
  *
@@ -57,8 +106,32 @@ function normalizeActorId(
  * upstream header is forwarded as-is, a client can supply an arbitrary IP and
  * bypass IP-based rate limiting.
  *
+ * When the runtime exposes the socket peer, pass it as `remoteAddress`. It is
+ * used when no header yields an IP, and with `requireTrustedPeer` headers are
+ * only read when that peer is one of your `trustedProxies`. For raw TCP behind
+ * a PROXY protocol load balancer, pass the {@link parseProxyProtocol} result as
+ * `proxyProtocol` instead; its source address is then the peer.
+ *
+ * ### Allow and deny lists
+ *
+ * With `allowList` or `denyList`, the result carries a `verdict` for the
+ * client IP and the `matchedRange` that produced it. Ranges are matched with a
+ * prefix trie, so lookups stay cheap for long lists.
+ *
+ * ### Network attributes
+ *
+ * With a `networkLookup`, such as one built by {@link createMmdbLookup} from
+ * GeoLite2 databases, the traits carry the client's `asn` and `country`.
+ * `anchorOnAsn` then keys a client on its autonomous system rather than its
+ * subnet, which suits abuse from hosting providers.
+ *
+ * `edgeTraits` opts into the attributes an edge provider already knows, such
+ * as Cloudflare's `request.cf` or CloudFront's viewer headers, and chooses
+ * whether each one only shows up in `traits`, scopes the key, or anchors it.
+ *
  * @param source - A Fetch API `Request`, or a lightweight
- *   `{ headers, method?, url? }` object compatible with edge runtimes.
+ *   `{ headers, method?, url?, remoteAddress?, proxyProtocol? }` object
+ *   compatible with edge runtimes.
  * @param options - Configuration for identity precedence, IP parsing, scoping,
  *   and hashing.
  * @returns A {@link FingerprintResult} containing the hash, the ordered parts
@@ -71,34 +144,333 @@ export function fingerprint(
   source: FingerprintSource,
   options?: FingerprintOptions
 ): FingerprintResult {
-  const actorId = normalizeActorId(options?.actorId);
+  const request = resolveRequest(source, options);
+  const bucket =
+    request.clientIp === null
+      ? null
+      : bucketIp(request.clientIp, options ?? {});
 
-  const traits = {
+  return deriveResult(options, request, bucket, null);
+}
+
+/**
+ * Derives one key per granularity level from a single IP extraction, for
+ * layered limiters that apply separate quotas per `/128`, `/64` and `/48`, or
+ * per `/32` and `/24`.
+ *
+ * The client IP is extracted once. Each result is what {@link fingerprint}
+ * would return with `ipv6Subnet` / `ipv4Subnet` set to that level, and its
+ * `parts` carry a `level:ipv6/<n>` or `level:ipv4/<n>` segment right after the
+ * IP anchor so keys for different levels never collide. Results follow the
+ * order of the list for the client's address family; IPv4-mapped and
+ * unwrapped transition addresses use the `ipv4` list. `subnetOverrides` does
+ * not apply to explicit levels.
+ *
+ * When the family has no levels configured, when no client IP could be
+ * extracted, or when `actorId` anchors identity, the result is a single-element
+ * list holding the plain {@link fingerprint} result.
+ *
+ * @param source - The same request source accepted by {@link fingerprint}.
+ * @param levels - Prefix lengths per address family, in the order results
+ *   should be returned.
+ * @param options - The same options accepted by {@link fingerprint}.
+ * @returns One {@link FingerprintResult} per level.
+ *
+ * @throws {RangeError} If a level is not an integer in `[1, 32]` for IPv4 or
+ *   `[1, 128]` for IPv6.
+ */
+export function fingerprintHierarchy(
+  source: FingerprintSource,
+  levels: FingerprintLevels,
+  options?: FingerprintOptions
+): readonly FingerprintResult[] {
+  validateLevels(levels.ipv6, 128, 'ipv6');
+  validateLevels(levels.ipv4, 32, 'ipv4');
+
+  const request = resolveRequest(source, options);
+  const clientIp = request.clientIp;
+  if (clientIp === null) {
+    return [deriveResult(options, request, null, null)];
+  }
+
+  const bucket = bucketIp(clientIp, options ?? {});
+  if (bucket.prefix === null) {
+    return [deriveResult(options, request, bucket, null)];
+  }
+
+  const family = bucket.ip.includes(':') ? 'ipv6' : 'ipv4';
+  const lengths = levels[family] ?? [];
+  if (lengths.length === 0) {
+    return [deriveResult(options, request, bucket, null)];
+  }
+
+  return lengths.map((length) => {
+    const levelOptions: IpBucketOptions =
+      family === 'ipv6'
+        ? { ...options, ipv6Subnet: length, subnetOverrides: NO_OVERRIDES }
+        : { ...options, ipv4Subnet: length, subnetOverrides: NO_OVERRIDES };
+
+    return deriveResult(
+      options,
+      request,
+      bucketIp(clientIp, levelOptions),
+      `${family}/${length}`
+    );
+  });
+}
+
+const NO_OVERRIDES: Readonly<Record<string, number>> = {};
+
+function validateLevels(
+  lengths: Possible<readonly number[]>,
+  max: number,
+  family: 'ipv4' | 'ipv6'
+): void {
+  for (const length of lengths ?? []) {
+    if (!Number.isInteger(length) || length < 1 || length > max) {
+      throw new RangeError(
+        `${family} levels must be integers in range 1..${max}`
+      );
+    }
+  }
+}
+
+/**
+ * Everything about a request that does not depend on the bucket granularity,
+ * computed once per call.
+ */
+interface ResolvedRequest {
+  readonly actorId: Optional<string>;
+  readonly clientIp: Optional<string>;
+  readonly ipSource: Optional<IpSource>;
+  readonly edge: EdgeAttributes;
+  readonly client: ClientTraits;
+  readonly extras: Omit<FingerprintResult, 'hash' | 'parts' | 'traits'>;
+}
+
+function resolveRequest(
+  source: FingerprintSource,
+  options: Possible<FingerprintOptions>
+): ResolvedRequest {
+  const actorId =
+    normalizeActorId(options?.actorId) ??
+    (options?.actorSources === undefined
+      ? null
+      : resolveActor(source, options.actorSources));
+
+  const ipSettings = resolveIpSettings(options);
+  const peer = extractPeerAddress(source);
+
+  const explain =
+    actorId === null && options?.explain === true
+      ? attributePeer(
+          explainClientIp(
+            source.headers,
+            ipSettings.ipHeaders,
+            ipSettings.extraction,
+            peer.address
+          ),
+          peer
+        )
+      : null;
+
+  const client =
+    explain ??
+    (actorId === null
+      ? attributePeer(
+          resolveClientIp(
+            source.headers,
+            ipSettings.ipHeaders,
+            peer.address,
+            ipSettings.extraction
+          ),
+          peer
+        )
+      : null);
+
+  const clientIp = client?.ip ?? null;
+
+  const signals =
+    options?.detectSpoofing === true
+      ? detectSpoofingSignals(
+          source.headers,
+          ipSettings.ipHeaders,
+          ipSettings.extraction,
+          peer.address
+        )
+      : null;
+
+  const listCheck =
+    options?.allowList !== undefined || options?.denyList !== undefined
+      ? checkIpLists(
+          actorId === null
+            ? clientIp
+            : resolveClientIp(
+                source.headers,
+                ipSettings.ipHeaders,
+                peer.address,
+                ipSettings.extraction
+              ).ip,
+          options.allowList,
+          options.denyList
+        )
+      : null;
+
+  const edge = extractEdgeAttributes(
+    source,
+    options?.edgeTraits,
+    options?.edgeHeaders
+  );
+  const network =
+    clientIp !== null &&
+    options?.networkLookup !== undefined &&
+    (edge.asn === null || edge.country === null)
+      ? options.networkLookup(clientIp)
+      : null;
+
+  return {
     actorId,
-    ip:
-      actorId === null
-        ? normalizeIpForBucket(
-            extractClientIp(
-              source.headers,
-              options?.ipHeaders ?? DEFAULT_IP_HEADERS
-            ),
-            options?.ipv6Subnet
+    clientIp,
+    ipSource: client?.source ?? null,
+    edge: {
+      ...edge,
+      asn: edge.asn ?? network?.asn ?? null,
+      country: edge.country ?? network?.country ?? null,
+    },
+    client: extractClientTraits(source, options),
+    extras: {
+      ...(explain === null ? {} : { explain }),
+      ...(signals === null ? {} : { signals }),
+      ...(listCheck ?? {}),
+    },
+  };
+}
+
+type ClientTraits = Pick<
+  FingerprintTraits,
+  | 'userAgent'
+  | 'clientHintBrands'
+  | 'clientHintPlatform'
+  | 'clientHintMobile'
+  | 'acceptLanguage'
+  | 'tlsFingerprint'
+  | 'headerOrder'
+  | 'plugins'
+  | 'method'
+  | 'path'
+>;
+
+function extractClientTraits(
+  source: FingerprintSource,
+  options: Possible<FingerprintOptions>
+): ClientTraits {
+  const hints =
+    options?.includeUserAgent === true || options?.includeClientHints === true
+      ? extractClientHints(source.headers)
+      : null;
+
+  return {
+    userAgent:
+      options?.includeUserAgent === true
+        ? extractUserAgent(
+            source.headers,
+            options.userAgentFormat ?? 'normalized',
+            hints ?? NO_CLIENT_HINTS
           )
         : null,
+    clientHintBrands:
+      options?.includeClientHints === true && hints !== null
+        ? hints.brands.join(',') || null
+        : null,
+    clientHintPlatform:
+      options?.includeClientHints === true ? hints?.platform ?? null : null,
+    clientHintMobile:
+      options?.includeClientHints === true ? hints?.mobile ?? null : null,
+    acceptLanguage:
+      options?.includeAcceptLanguage === true
+        ? extractAcceptLanguage(source.headers, acceptLanguageSettings(options))
+        : null,
+    tlsFingerprint:
+      options?.includeTlsFingerprint === true
+        ? extractTlsFingerprint(
+            source,
+            options.tlsFingerprintFormat ?? 'ja4',
+            options.tlsFingerprintHeaders
+          )
+        : null,
+    headerOrder:
+      options?.includeHeaderOrder === true
+        ? extractHeaderOrder(
+            'rawHeaders' in source ? source.rawHeaders : undefined,
+            options.headerOrderFormat ?? 'order',
+            options.headerOrderIgnore
+          )
+        : null,
+    plugins:
+      options?.traitPlugins === undefined
+        ? NO_PLUGIN_TRAITS
+        : extractPluginTraits(
+            source,
+            compileTraitPlugins(options.traitPlugins)
+          ),
     method: options?.includeMethod === true ? extractMethod(source) : null,
     path:
       options?.includePath === true
         ? extractPath(source.url, options?.pathNormalizer)
         : null,
+  };
+}
+
+function deriveResult(
+  options: Possible<FingerprintOptions>,
+  request: ResolvedRequest,
+  bucket: Optional<IpBucket>,
+  level: Optional<string>
+): FingerprintResult {
+  const ipKey = bucket?.ip ?? null;
+
+  const traits = {
+    actorId: request.actorId,
+    ip: formatIpBucket(ipKey, options?.ipFormat ?? 'full', bucket?.prefix),
+    ipSource: request.ipSource,
+    ipClass: request.clientIp === null ? null : classifyIp(request.clientIp),
+    asn: request.edge.asn,
+    country: request.edge.country,
+    colo: request.edge.colo,
+    bot: request.edge.bot,
+    ...request.client,
   } satisfies FingerprintTraits;
 
-  const parts = buildParts(traits);
+  // parts always use the full form so that ipFormat never changes a key.
+  const parts = buildParts(
+    traits.ip === ipKey ? traits : { ...traits, ip: ipKey },
+    options,
+    level
+  );
   const hashFn: HashFunction = options?.hashFn ?? fnv1a64Hex;
   const hash = hashFn(textEncoder.encode(parts.join('|')));
 
-  return {
-    hash,
-    parts,
-    traits,
-  };
+  return { hash, parts, traits, ...request.extras };
+}
+
+const NO_PLUGIN_TRAITS: FingerprintTraits['plugins'] = {};
+
+const NO_CLIENT_HINTS: ClientHints = {
+  brands: [],
+  platform: null,
+  mobile: null,
+};
+
+const DEFAULT_MAX_ACCEPT_LANGUAGES = 3;
+
+function acceptLanguageSettings(
+  options: FingerprintOptions
+): AcceptLanguageSettings {
+  const limit = options.maxAcceptLanguages ?? DEFAULT_MAX_ACCEPT_LANGUAGES;
+
+  if (!Number.isInteger(limit) || limit < 1) {
+    throw new RangeError('maxAcceptLanguages must be a positive integer');
+  }
+
+  return { primaryOnly: options.acceptLanguagePrimaryOnly === true, limit };
 }
@@ -36,3 +36,201 @@ export function fnv1a64Hex(data: Uint8Array): string {
   }
   return hash.toString(16).padStart(16, '0');
 }
+
+const SHA256_K = Uint32Array.from([
+  0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1,
+  0x923f82a4, 0xab1c5ed5, 0xd807aa98, 0x12835b01, 0x243185be, 0x550c7dc3,
+  0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174, 0xe49b69c1, 0xefbe4786,
+  0x0fc19dc6, 0x240ca1cc, 0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da,
+  0x983e5152, 0xa831c66d, 0xb00327c8, 0xbf597fc7, 0xc6e00bf3, 0xd5a79147,
+  0x06ca6351, 0x14292967, 0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13,
+  0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85, 0xa2bfe8a1, 0xa81a664b,
+  0xc24b8b70, 0xc76c51a3, 0xd192e819, 0xd6990624, 0xf40e3585, 0x106aa070,
+  0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a,
+  0x5b9cca4f, 0x682e6ff3, 0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208,
+  0x90befffa, 0xa4506ceb, 0xbef9a3f7, 0xc67178f2,
+]);
+
+/**
+ * Computes SHA-256 and returns it as 64 lowercase hexadecimal characters.
+ *
+ * A synchronous, dependency-free implementation for JA4, which is defined
+ * over truncated SHA-256 digests. WebCrypto is asynchronous and not available
+ * in every runtime fpyx supports.
+ *
+ * @see https://datatracker.ietf.org/doc/html/rfc6234
+ */
+export function sha256Hex(data: Uint8Array): string {
+  const blocks = padMessage(data, false);
+  const h = Uint32Array.from([
+    0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f, 0x9b05688c,
+    0x1f83d9ab, 0x5be0cd19,
+  ]);
+  const w = new Uint32Array(64);
+
+  for (let offset = 0; offset < blocks.length; offset += 64) {
+    for (let i = 0; i < 16; i++) {
+      const j = offset + i * 4;
+      w[i] =
+        (blocks[j]! << 24) |
+        (blocks[j + 1]! << 16) |
+        (blocks[j + 2]! << 8) |
+        blocks[j + 3]!;
+    }
+    for (let i = 16; i < 64; i++) {
+      const w15 = w[i - 15]!;
+      const w2 = w[i - 2]!;
+      const s0 = rotr(w15, 7) ^ rotr(w15, 18) ^ (w15 >>> 3);
+      const s1 = rotr(w2, 17) ^ rotr(w2, 19) ^ (w2 >>> 10);
+      w[i] = w[i - 16]! + s0 + w[i - 7]! + s1;
+    }
+
+    let a = h[0]!;
+    let b = h[1]!;
+    let c = h[2]!;
+    let d = h[3]!;
+    let e = h[4]!;
+    let f = h[5]!;
+    let g = h[6]!;
+    let hh = h[7]!;
+
+    for (let i = 0; i < 64; i++) {
+      const s1 = rotr(e, 6) ^ rotr(e, 11) ^ rotr(e, 25);
+      const ch = (e & f) ^ (~e & g);
+      const t1 = (hh + s1 + ch + SHA256_K[i]! + w[i]!) >>> 0;
+      const s0 = rotr(a, 2) ^ rotr(a, 13) ^ rotr(a, 22);
+      const maj = (a & b) ^ (a & c) ^ (b & c);
+      const t2 = (s0 + maj) >>> 0;
+      hh = g;
+      g = f;
+      f = e;
+      e = (d + t1) >>> 0;
+      d = c;
+      c = b;
+      b = a;
+      a = (t1 + t2) >>> 0;
+    }
+
+    h[0] += a;
+    h[1] += b;
+    h[2] += c;
+    h[3] += d;
+    h[4] += e;
+    h[5] += f;
+    h[6] += g;
+    h[7] += hh;
+  }
+
+  return Array.from(h, (word) => word.toString(16).padStart(8, '0')).join('');
+}
+
+const MD5_S = [
+  7, 12, 17, 22, 7, 12, 17, 22, 7, 12, 17, 22, 7, 12, 17, 22, 5, 9, 14, 20, 5,
+  9, 14, 20, 5, 9, 14, 20, 5, 9, 14, 20, 4, 11, 16, 23, 4, 11, 16, 23, 4, 11,
+  16, 23, 4, 11, 16, 23, 6, 10, 15, 21, 6, 10, 15, 21, 6, 10, 15, 21, 6, 10, 15,
+  21,
+] as const;
+
+const MD5_K = Uint32Array.from({ length: 64 }, (_, i) =>
+  Math.floor(Math.abs(Math.sin(i + 1)) * 2 ** 32)
+);
+
+/**
+ * Computes MD5 and returns it as 32 lowercase hexadecimal characters.
+ *
+ * Only used because JA3 is defined as the MD5 of the JA3 string, which is
+ * what edge providers report. MD5 is broken for any security purpose.
+ *
+ * @see https://datatracker.ietf.org/doc/html/rfc1321
+ */
+export function md5Hex(data: Uint8Array): string {
+  const blocks = padMessage(data, true);
+  const h = Uint32Array.from([0x67452301, 0xefcdab89, 0x98badcfe, 0x10325476]);
+  const m = new Uint32Array(16);
+
+  for (let offset = 0; offset < blocks.length; offset += 64) {
+    for (let i = 0; i < 16; i++) {
+      const j = offset + i * 4;
+      m[i] =
+        blocks[j]! |
+        (blocks[j + 1]! << 8) |
+        (blocks[j + 2]! << 16) |
+        (blocks[j + 3]! << 24);
+    }
+
+    let a = h[0]!;
+    let b = h[1]!;
+    let c = h[2]!;
+    let d = h[3]!;
+
+    for (let i = 0; i < 64; i++) {
+      let f: number;
+      let g: number;
+      if (i < 16) {
+        f = (b & c) | (~b & d);
+        g = i;
+      } else if (i < 32) {
+        f = (d & b) | (~d & c);
+        g = (5 * i + 1) % 16;
+      } else if (i < 48) {
+        f = b ^ c ^ d;
+        g = (3 * i + 5) % 16;
+      } else {
+        f = c ^ (b | ~d);
+        g = (7 * i) % 16;
+      }
+
+      const next = d;
+      d = c;
+      c = b;
+      b = (b + rotl((a + f + MD5_K[i]! + m[g]!) >>> 0, MD5_S[i]!)) >>> 0;
+      a = next;
+    }
+
+    h[0] += a;
+    h[1] += b;
+    h[2] += c;
+    h[3] += d;
+  }
+
+  const digest = new DataView(new ArrayBuffer(16));
+  for (let i = 0; i < 4; i++) digest.setUint32(i * 4, h[i]!, true);
+
+  return Array.from(new Uint8Array(digest.buffer), (byte) =>
+    byte.toString(16).padStart(2, '0')
+  ).join('');
+}
+
+/**
+ * md-style padding: a 0x80 byte, zeros up to 56 mod 64, then the bit length as a 64-bit
+ * integer, big-endian for sha-256 and little-endian for md5.
+ */
+function padMessage(data: Uint8Array, littleEndian: boolean): Uint8Array {
+  const length = Math.ceil((data.length + 9) / 64) * 64;
+  const blocks = new Uint8Array(length);
+  blocks.set(data);
+  blocks[data.length] = 0x80;
+
+  const view = new DataView(blocks.buffer);
+  const bits = data.length * 8;
+  const high = Math.floor(bits / 2 ** 32);
+  const low = bits >>> 0;
+
+  if (littleEndian) {
+    view.setUint32(length - 8, low, true);
+    view.setUint32(length - 4, high, true);
+  } else {
+    view.setUint32(length - 8, high, false);
+    view.setUint32(length - 4, low, false);
+  }
+
+  return blocks;
+}
+
+function rotr(value: number, bits: number): number {
+  return (value >>> bits) | (value << (32 - bits));
+}
+
+function rotl(value: number, bits: number): number {
+  return (value << bits) | (value >>> (32 - bits));
+}
@@ -0,0 +1,87 @@
+import { DEFAULT_HEADER_ORDER_IGNORE } from './constants';
+import { fnv1a64Hex } from './hash';
+import type { HeaderOrderFormat, Optional, Possible } from './types';
+
+const textEncoder = new TextEncoder();
+
+interface HeaderNameMatcher {
+  readonly names: ReadonlySet<string>;
+  readonly prefixes: readonly string[];
+}
+
+const compiledIgnoreLists = new WeakMap<readonly string[], HeaderNameMatcher>();
+
+/**
+ * compile an ignore list of header names and `prefix-*` patterns, lowercased. cached per
+ * list instance.
+ *
+ * @throws {TypeError} if an entry is blank or has a `*` anywhere but at the end
+ */
+function compileIgnoreList(list: readonly string[]): HeaderNameMatcher {
+  const cached = compiledIgnoreLists.get(list);
+  if (cached !== undefined) return cached;
+
+  const names = new Set<string>();
+  const prefixes: string[] = [];
+
+  for (const entry of list) {
+    const name = entry.trim().toLowerCase();
+    const star = name.indexOf('*');
+    if (name === '' || (star >= 0 && star !== name.length - 1)) {
+      throw new TypeError(`invalid headerOrderIgnore entry: ${entry}`);
+    }
+    if (star < 0) names.add(name);
+    else prefixes.push(name.slice(0, -1));
+  }
+
+  const matcher = { names, prefixes };
+  compiledIgnoreLists.set(list, matcher);
+  return matcher;
+}
+
+function isIgnored(name: string, matcher: HeaderNameMatcher): boolean {
+  return (
+    matcher.names.has(name) ||
+    matcher.prefixes.some((prefix) => name.startsWith(prefix))
+  );
+}
+
+/**
+ * the header names of a node-style raw header list (`[name, value, name, value, ...]`),
+ * lowercased, without ignored names, each kept at its first position. `set` sorts them.
+ * null without a raw list or when every name is ignored.
+ */
+export function headerNames(
+  rawHeaders: Possible<readonly string[]>,
+  format: HeaderOrderFormat,
+  ignore: Possible<readonly string[]>
+): Optional<readonly string[]> {
+  if (rawHeaders === undefined) return null;
+
+  const matcher = compileIgnoreList(ignore ?? DEFAULT_HEADER_ORDER_IGNORE);
+  const names = new Set<string>();
+
+  for (let i = 0; i + 1 < rawHeaders.length; i += 2) {
+    const name = rawHeaders[i]!.trim().toLowerCase();
+    if (name === '' || isIgnored(name, matcher)) continue;
+    names.add(name);
+  }
+
+  if (names.size === 0) return null;
+  return format === 'set' ? [...names].sort() : [...names];
+}
+
+/**
+ * the header order trait: fnv-1a 64 of the names joined with ",". the hash keeps the key
+ * short; the names themselves carry no more identity than their order.
+ */
+export function extractHeaderOrder(
+  rawHeaders: Possible<readonly string[]>,
+  format: HeaderOrderFormat,
+  ignore: Possible<readonly string[]>
+): Optional<string> {
+  const names = headerNames(rawHeaders, format, ignore);
+  return names === null
+    ? null
+    : fnv1a64Hex(textEncoder.encode(names.join(',')));
+}
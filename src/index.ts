@@ -1,10 +1,63 @@
-export { fingerprint } from './fingerprint';
+export { fingerprint, fingerprintHierarchy } from './fingerprint';
 export { fnv1a64Hex } from './hash';
-export { DEFAULT_IP_HEADERS } from './constants';
+export { extractClientIp, explainClientIp } from './ip-extraction';
+export { classifyIp } from './ip-class';
+export { detectSpoofingSignals } from './ip-signals';
+export { createMmdbLookup, createMmdbReader } from './mmdb';
+export { parseProxyProtocol } from './proxy-protocol';
+export { computeJa3, computeJa4 } from './tls-fingerprint';
+export {
+  DEFAULT_EDGE_HEADERS,
+  DEFAULT_HEADER_ORDER_IGNORE,
+  DEFAULT_IP_HEADERS,
+  DEFAULT_IP_HEADER_PARSERS,
+  DEFAULT_TLS_FINGERPRINT_HEADERS,
+  IP_PRESETS,
+} from './constants';
 export type {
+  ActorSource,
+  BuiltinIpHeaderParser,
+  EdgeBotClass,
+  EdgeCfProperties,
+  EdgeHeaders,
+  EdgeTrait,
+  EdgeTraitRole,
+  EdgeTraitRoles,
+  FingerprintLevels,
   FingerprintResult,
   FingerprintTraits,
   FingerprintSource,
   FingerprintOptions,
   HashFunction,
+  HeaderOrderFormat,
+  IpBucketOptions,
+  IpCandidateExplanation,
+  IpCandidateOutcome,
+  IpCandidateReason,
+  IpClass,
+  IpExplanation,
+  IpExtractionOptions,
+  IpFormat,
+  IpHeaderExplanation,
+  IpHeaderOutcome,
+  IpHeaderParser,
+  IpHeaderStrategy,
+  IpNetworkInfo,
+  IpNetworkLookup,
+  IpPreset,
+  IpPresetName,
+  IpSource,
+  IpSpoofingSignal,
+  IpVerdict,
+  MmdbMetadata,
+  MmdbReader,
+  MmdbValue,
+  NonPublicIpPolicy,
+  ProxyProtocolHeader,
+  ProxyProtocolTlv,
+  ProxyProtocolTransport,
+  TlsFingerprintFormat,
+  TraitPlugin,
+  TraitPluginRole,
+  UserAgentFormat,
 } from './types';
@@ -0,0 +1,191 @@
+import { TRUSTED_PROXY_KEYWORDS } from './constants';
+import { parseIpv4, parseIpv6ToBytes } from './ip-parse';
+import type { Optional } from './types';
+
+/**
+ * a parsed cidr range. ipv4 ranges are stored ipv4-mapped (::ffff:0:0/96) so that a single
+ * 16-byte comparison covers both families.
+ */
+export interface CidrRange {
+  readonly bytes: Uint8Array;
+  readonly prefix: number;
+}
+
+const compiledTrustedProxies = new WeakMap<
+  readonly string[],
+  readonly CidrRange[]
+>();
+
+/**
+ * parse an ip literal into 16 bytes, mapping ipv4 into ::ffff:0:0/96.
+ * zone identifiers are stripped, they are not part of the address bits.
+ */
+export function ipToBytes(ip: string): Optional<Uint8Array> {
+  const zoneCut = ip.indexOf('%');
+  const raw = (zoneCut >= 0 ? ip.slice(0, zoneCut) : ip).trim().toLowerCase();
+
+  if (!raw.includes(':')) {
+    const v4 = parseIpv4(raw);
+    return v4 === null ? null : ipv4ToMapped(v4);
+  }
+
+  return parseIpv6ToBytes(raw);
+}
+
+/**
+ * the 16-byte ipv4-mapped form (::ffff:a.b.c.d) of a 4-byte ipv4 address.
+ */
+export function ipv4ToMapped(v4: ArrayLike<number>): Uint8Array {
+  const bytes = new Uint8Array(16);
+  bytes[10] = 0xff;
+  bytes[11] = 0xff;
+  bytes.set(v4, 12);
+  return bytes;
+}
+
+export function isIpv4MappedIpv6(bytes: Uint8Array): boolean {
+  for (let i = 0; i < 10; i++) {
+    if (bytes[i]! !== 0) return false;
+  }
+  return bytes[10]! === 0xff && bytes[11]! === 0xff;
+}
+
+/**
+ * whether a range lies inside ::ffff:0:0/96 and so covers ipv4 addresses only. ipv4 is
+ * matched as mapped addresses, so only these ranges may match it: ::/0 or 2000::/3 must not.
+ */
+export function isIpv4Range(range: CidrRange): boolean {
+  return range.prefix >= 96 && isIpv4MappedIpv6(range.bytes);
+}
+
+/**
+ * parse "address/prefix" or a bare address (a single-host range).
+ * host bits past the prefix are ignored, the same as most proxy-trust configs do.
+ */
+export function parseCidr(input: string): Optional<CidrRange> {
+  const trimmed = input.trim();
+  const slash = trimmed.indexOf('/');
+  const address = slash >= 0 ? trimmed.slice(0, slash) : trimmed;
+  const bytes = ipToBytes(address);
+  if (bytes === null) return null;
+
+  const isV4 = !address.includes(':');
+  const maxPrefix = isV4 ? 32 : 128;
+
+  if (slash < 0) return { bytes, prefix: 128 };
+
+  const prefixStr = trimmed.slice(slash + 1);
+  if (!/^\d{1,3}$/.test(prefixStr)) return null;
+
+  const prefix = Number.parseInt(prefixStr, 10);
+  if (prefix > maxPrefix) return null;
+
+  return { bytes, prefix: isV4 ? prefix + 96 : prefix };
+}
+
+export function cidrContains(range: CidrRange, bytes: Uint8Array): boolean {
+  const fullBytes = Math.floor(range.prefix / 8);
+
+  for (let i = 0; i < fullBytes; i++) {
+    if (bytes[i]! !== range.bytes[i]!) return false;
+  }
+
+  const rem = range.prefix % 8;
+  if (rem === 0) return true;
+
+  const mask = leadingBitsMask(rem);
+  return (bytes[fullBytes]! & mask) === (range.bytes[fullBytes]! & mask);
+}
+
+/**
+ * clear every bit past `prefix`, in place.
+ */
+export function maskBytes(bytes: Uint8Array, prefix: number): void {
+  const fullBytes = Math.floor(prefix / 8);
+  if (fullBytes >= bytes.length) return;
+
+  const rem = prefix % 8;
+  bytes[fullBytes]! &= leadingBitsMask(rem);
+  bytes.fill(0, fullBytes + 1);
+}
+
+/**
+ * a byte with its `bits` high bits set, e.g. 0xe0 for 3.
+ */
+function leadingBitsMask(bits: number): number {
+  return (0xff << (8 - bits)) & 0xff;
+}
+
+/**
+ * compile a trusted proxy list of cidr ranges, bare addresses and the express-style
+ * keywords "loopback", "linklocal" and "uniquelocal".
+ *
+ * results are cached per list instance, so passing the same array on every request
+ * only parses it once.
+ *
+ * @throws {TypeError} if an entry is neither a keyword nor a valid address or cidr range
+ *
+ * @see https://expressjs.com/en/guide/behind-proxies.html
+ */
+export function compileTrustedProxies(
+  list: readonly string[]
+): readonly CidrRange[] {
+  const cached = compiledTrustedProxies.get(list);
+  if (cached !== undefined) return cached;
+
+  const out: CidrRange[] = [];
+
+  for (const entry of list) {
+    const keyword = entry.trim().toLowerCase();
+    const expanded: readonly string[] = Object.hasOwn(
+      TRUSTED_PROXY_KEYWORDS,
+      keyword
+    )
+      ? TRUSTED_PROXY_KEYWORDS[keyword as keyof typeof TRUSTED_PROXY_KEYWORDS]
+      : [entry];
+
+    for (const cidr of expanded) {
+      const range = parseCidr(cidr);
+      if (range === null) {
+        throw new TypeError(`invalid trusted proxy: ${entry}`);
+      }
+      out.push(range);
+    }
+  }
+
+  compiledTrustedProxies.set(list, out);
+  return out;
+}
+
+/**
+ * compares two ip literals by address bits, so "::ffff:192.0.2.1" equals "192.0.2.1" and
+ * differently compressed ipv6 forms are equal.
+ */
+export function isSameAddress(a: string, b: string): boolean {
+  const left = ipToBytes(a);
+  const right = ipToBytes(b);
+  if (left === null || right === null) return a === b;
+
+  for (let i = 0; i < 16; i++) {
+    if (left[i]! !== right[i]!) return false;
+  }
+  return true;
+}
+
+/**
+ * whether an ip literal is inside any of the ranges. an ipv4 address only matches ranges
+ * that lie inside ::ffff:0:0/96, see {@link isIpv4Range}.
+ */
+export function isInRanges(ip: string, ranges: readonly CidrRange[]): boolean {
+  const bytes = ipToBytes(ip);
+  if (bytes === null) return false;
+
+  const isV4 = isIpv4MappedIpv6(bytes);
+
+  for (const range of ranges) {
+    if (isV4 && !isIpv4Range(range)) continue;
+    if (cidrContains(range, bytes)) return true;
+  }
+
+  return false;
+}
@@ -0,0 +1,46 @@
+import { SPECIAL_PURPOSE_IP_RANGES } from './constants';
+import { cidrContains, ipToBytes, parseCidr } from './ip-cidr';
+import type { CidrRange } from './ip-cidr';
+import type { IpClass, Optional } from './types';
+
+interface ClassifiedRange {
+  readonly range: CidrRange;
+  readonly ipClass: IpClass;
+}
+
+let compiledRanges: Optional<readonly ClassifiedRange[]> = null;
+
+function specialPurposeRanges(): readonly ClassifiedRange[] {
+  if (compiledRanges !== null) return compiledRanges;
+
+  compiledRanges = SPECIAL_PURPOSE_IP_RANGES.map(([cidr, ipClass]) => {
+    const range = parseCidr(cidr);
+    if (range === null) throw new TypeError(`invalid range: ${cidr}`);
+    return { range, ipClass };
+  });
+
+  return compiledRanges;
+}
+
+/**
+ * classify an ip literal against the iana special-purpose registries.
+ *
+ * ipv4-mapped ipv6 addresses are classified as the ipv4 address they carry. zone identifiers
+ * are ignored.
+ *
+ * @param ip an ipv4 or ipv6 literal
+ * @returns the address class, or null if the input is not an ip literal
+ *
+ * @see https://www.iana.org/assignments/iana-ipv4-special-registry/iana-ipv4-special-registry.xhtml
+ * @see https://www.iana.org/assignments/iana-ipv6-special-registry/iana-ipv6-special-registry.xhtml
+ */
+export function classifyIp(ip: string): Optional<IpClass> {
+  const bytes = ipToBytes(ip);
+  if (bytes === null) return null;
+
+  for (const { range, ipClass } of specialPurposeRanges()) {
+    if (cidrContains(range, bytes)) return ipClass;
+  }
+
+  return 'reserved';
+}
@@ -1,5 +1,22 @@
-import { INVALID_IP_TOKENS } from './constants';
-import type { Ipv4Tuple, Optional } from './types';
+import { DEFAULT_IP_HEADER_PARSERS, INVALID_IP_TOKENS } from './constants';
+import { compileTrustedProxies, isInRanges } from './ip-cidr';
+import { classifyIp } from './ip-class';
+import { parseIpv4, parseIpv6ToBytes } from './ip-parse';
+import type { CidrRange } from './ip-cidr';
+import type {
+  BuiltinIpHeaderParser,
+  IpCandidateExplanation,
+  IpCandidateReason,
+  IpExplanation,
+  IpExtractionOptions,
+  IpHeaderExplanation,
+  IpHeaderOutcome,
+  IpHeaderParser,
+  IpHeaderStrategy,
+  IpSource,
+  Optional,
+  Possible,
+} from './types';
 
 const IPV4_WITH_PORT_RE = /^(?:\d{1,3}\.){3}\d{1,3}:\d+$/;
 
@@ -11,11 +28,20 @@ const IPV4_WITH_PORT_RE = /^(?:\d{1,3}\.){3}\d{1,3}:\d+$/;
  * in the forwarded header. those are not ip addresses. accepting them would let an attacker
  * supply arbitrary strings and poison an abuse anchor.
  *
+ * by default the left-most valid entry of a list header wins. a client controls that entry,
+ * so when the number of proxies in front of the app is known, configure `trustedHops` for the
+ * header and the entry is picked by counting from the right instead. when the proxies are
+ * known by address rather than by count, `trustedProxies` walks the chain from the right and
+ * skips them. a hop count configured for a header takes precedence over the proxy list.
+ * with `nonPublicIps: 'skip'`, loopback, private and other special-purpose addresses are
+ * rejected like invalid literals.
+ *
  * also: this function does not determine whether a header is trustworthy.
  * you must only use headers that your own edge proxy overwrites.
  *
  * @param headers request headers
  * @param precedence ordered list of headers to check
+ * @param options per-header trust settings
  * @returns an ip literal string, or null if none found
  *
  * @see https://datatracker.ietf.org/doc/html/rfc7239
@@ -23,72 +49,556 @@ const IPV4_WITH_PORT_RE = /^(?:\d{1,3}\.){3}\d{1,3}:\d+$/;
  */
 export function extractClientIp(
   headers: Headers,
-  precedence: readonly string[]
+  precedence: readonly string[],
+  options?: IpExtractionOptions
 ): Optional<string> {
+  return scanHeaders(headers, precedence, options, undefined).ip;
+}
+
+/**
+ * same selection as {@link extractClientIp} (plus the optional peer fallback), but also
+ * reports every header checked in precedence order, every candidate it carried, why each
+ * candidate was rejected or skipped, and which header and hop won.
+ *
+ * this allocates a record per candidate, so keep it for debugging and support tooling
+ * rather than the hot path.
+ *
+ * @param headers request headers
+ * @param precedence ordered list of headers to check
+ * @param options per-header trust settings
+ * @param remoteAddress the socket peer address, if the runtime exposes one
+ */
+export function explainClientIp(
+  headers: Headers,
+  precedence: readonly string[],
+  options?: IpExtractionOptions,
+  remoteAddress?: Optional<string>
+): IpExplanation {
+  const trace: IpHeaderExplanation[] = [];
+  const resolved = resolve(
+    headers,
+    precedence,
+    remoteAddress ?? null,
+    options,
+    trace
+  );
+
+  return { ...resolved, headers: trace };
+}
+
+export interface ResolvedClientIp {
+  readonly ip: Optional<string>;
+  readonly source: Optional<IpSource>;
+}
+
+/**
+ * resolve the client ip from forwarding headers, falling back to the socket peer address.
+ *
+ * with `requireTrustedPeer`, headers are only believed when the peer itself is one of our
+ * proxies. a peer outside `trustedProxies` talked to us directly, so whatever forwarding
+ * headers it sent are its own claims and the peer address is the only fact we have.
+ *
+ * @param headers request headers
+ * @param precedence ordered list of headers to check
+ * @param remoteAddress the socket peer address, if the runtime exposes one
+ * @param options per-header trust settings
+ */
+export function resolveClientIp(
+  headers: Headers,
+  precedence: readonly string[],
+  remoteAddress: Optional<string>,
+  options?: IpExtractionOptions
+): ResolvedClientIp {
+  return resolve(headers, precedence, remoteAddress, options, undefined);
+}
+
+function resolve(
+  headers: Headers,
+  precedence: readonly string[],
+  remoteAddress: Optional<string>,
+  options: Possible<IpExtractionOptions>,
+  trace: Possible<IpHeaderExplanation[]>
+): Omit<IpExplanation, 'headers'> {
+  const { peer, peerTrusted } = checkPeer(remoteAddress, options);
+  if (peerTrusted === false) return fromPeer(peer, peerTrusted);
+
+  const scan = scanHeaders(headers, precedence, options, trace);
+  if (scan.ip !== null) {
+    return { ...scan, source: 'header', peer, peerTrusted };
+  }
+
+  return fromPeer(peer, peerTrusted);
+}
+
+export interface PeerCheck {
+  readonly peer: Optional<string>;
+  readonly peerTrusted: Optional<boolean>;
+}
+
+/**
+ * normalize the socket peer address and, under `requireTrustedPeer`, decide whether it is
+ * one of our proxies. `peerTrusted` is null when the option is off.
+ */
+export function checkPeer(
+  remoteAddress: Optional<string>,
+  options: Possible<IpExtractionOptions>
+): PeerCheck {
+  const peer = normalizeIpCandidate(remoteAddress);
+  if (options?.requireTrustedPeer !== true) return { peer, peerTrusted: null };
+
+  const peerTrusted =
+    peer !== null &&
+    options.trustedProxies !== undefined &&
+    isInRanges(peer, compileTrustedProxies(options.trustedProxies));
+
+  return { peer, peerTrusted };
+}
+
+function fromPeer(
+  peer: Optional<string>,
+  peerTrusted: Optional<boolean>
+): Omit<IpExplanation, 'headers'> {
+  return {
+    ip: peer,
+    source: peer === null ? null : 'peer',
+    header: null,
+    hop: null,
+    peer,
+    peerTrusted,
+  };
+}
+
+interface HeaderScan {
+  readonly ip: Optional<string>;
+  readonly header: Optional<string>;
+  readonly hop: Optional<number>;
+}
+
+interface HeaderPick {
+  readonly ip: Optional<string>;
+  readonly hop: Optional<number>;
+  readonly outcome: IpHeaderOutcome;
+}
+
+const NO_SCAN_MATCH: HeaderScan = { ip: null, header: null, hop: null };
+
+/**
+ * walks the precedence list and returns the first header that yields an ip.
+ * when a trace array is passed, one record per checked header is appended to it.
+ */
+function scanHeaders(
+  headers: Headers,
+  precedence: readonly string[],
+  options: Possible<IpExtractionOptions>,
+  trace: Possible<IpHeaderExplanation[]>
+): HeaderScan {
+  const compiled = compileExtraction(options);
+
+  for (const headerName of precedence) {
+    const normalizedName = headerName.toLowerCase();
+    const value = headers.get(headerName);
+
+    if (value === null) {
+      trace?.push({
+        header: normalizedName,
+        value: null,
+        strategy: headerStrategy(normalizedName, compiled),
+        outcome: 'absent',
+        candidates: [],
+      });
+      continue;
+    }
+
+    const entries = splitHeaderEntries(normalizedName, value, compiled);
+    const candidates = trace === undefined ? undefined : entries.map(unused);
+    const pick = pickFromEntries(normalizedName, entries, compiled, candidates);
+
+    trace?.push({
+      header: normalizedName,
+      value,
+      strategy: headerStrategy(normalizedName, compiled),
+      outcome: pick.outcome,
+      candidates: candidates ?? [],
+    });
+
+    if (pick.ip !== null) {
+      return { ip: pick.ip, header: normalizedName, hop: pick.hop };
+    }
+  }
+
+  return NO_SCAN_MATCH;
+}
+
+export interface HeaderClient {
+  readonly header: string;
+  readonly ip: string;
+}
+
+/**
+ * the client ip every present header would yield on its own, in precedence order.
+ * unlike {@link extractClientIp} this does not stop at the first match, and it ignores
+ * `nonPublicIps: 'skip'`: the raw clients are what spoofing signals are about.
+ */
+export function collectHeaderClients(
+  headers: Headers,
+  precedence: readonly string[],
+  options?: IpExtractionOptions
+): readonly HeaderClient[] {
+  const compiled = { ...compileExtraction(options), skipNonPublic: false };
+  const out: HeaderClient[] = [];
+
   for (const headerName of precedence) {
     const value = headers.get(headerName);
     if (value === null) continue;
 
     const normalizedName = headerName.toLowerCase();
+    const entries = splitHeaderEntries(normalizedName, value, compiled);
+    const pick = pickFromEntries(normalizedName, entries, compiled, undefined);
+
+    if (pick.ip !== null) out.push({ header: normalizedName, ip: pick.ip });
+  }
+
+  return out;
+}
+
+interface CompiledExtraction {
+  readonly parsers: ReadonlyMap<string, IpHeaderParser>;
+  readonly trustedHops: Possible<ReadonlyMap<string, number>>;
+  readonly trustedProxies: Possible<readonly CidrRange[]>;
+  readonly skipNonPublic: boolean;
+}
+
+function compileExtraction(
+  options: Possible<IpExtractionOptions>
+): CompiledExtraction {
+  return {
+    parsers: compileHeaderParsers(
+      options?.ipHeaderParsers ?? NO_CUSTOM_PARSERS
+    ),
+    trustedHops: normalizeTrustedHops(options?.trustedHops),
+    trustedProxies:
+      options?.trustedProxies === undefined
+        ? undefined
+        : compileTrustedProxies(options.trustedProxies),
+    skipNonPublic: options?.nonPublicIps === 'skip',
+  };
+}
+
+function headerStrategy(
+  normalizedName: string,
+  compiled: CompiledExtraction
+): IpHeaderStrategy {
+  if (compiled.trustedHops?.has(normalizedName) === true) {
+    return 'trusted-hops';
+  }
+  if (compiled.trustedProxies !== undefined) return 'trusted-proxies';
+  return 'leftmost';
+}
+
+function pickFromEntries(
+  normalizedName: string,
+  entries: readonly Optional<string>[],
+  compiled: CompiledExtraction,
+  candidates: Possible<IpCandidateExplanation[]>
+): HeaderPick {
+  const hops = compiled.trustedHops?.get(normalizedName);
+  if (hops !== undefined) {
+    return pickAtTrustedHop(entries, hops, compiled, candidates);
+  }
+  if (compiled.trustedProxies !== undefined) {
+    return pickFirstUntrusted(
+      entries,
+      compiled.trustedProxies,
+      compiled,
+      candidates
+    );
+  }
+  return pickLeftmost(entries, compiled, candidates);
+}
+
+/**
+ * validates the per-header hop counts and keys them by lowercased header name.
+ */
+function normalizeTrustedHops(
+  trustedHops: Possible<Readonly<Record<string, number>>>
+): Possible<ReadonlyMap<string, number>> {
+  if (trustedHops === undefined) return undefined;
+
+  const out = new Map<string, number>();
 
-    if (normalizedName === 'forwarded') {
-      const candidates = parseForwardedForIdentifiers(value);
-      for (const c of candidates) {
-        const ip = normalizeIpCandidate(c);
-        if (ip !== null) return ip;
+  for (const [name, hops] of Object.entries(trustedHops)) {
+    if (!Number.isInteger(hops) || hops < 1) {
+      throw new RangeError('trustedHops values must be integers >= 1');
+    }
+    out.set(name.toLowerCase(), hops);
+  }
+
+  return out;
+}
+
+const BUILTIN_IP_HEADER_PARSERS: Readonly<
+  Record<BuiltinIpHeaderParser, IpHeaderParser>
+> = {
+  forwarded: parseForwardedForIdentifiers,
+  'x-forwarded-for': parseCommaSeparatedList,
+  'address-port': (value) => [stripTrailingPort(value.trim())],
+  single: (value) => [value.trim()],
+};
+
+const compiledHeaderParsers = new WeakMap<
+  NonNullable<IpExtractionOptions['ipHeaderParsers']>,
+  ReadonlyMap<string, IpHeaderParser>
+>();
+
+const NO_CUSTOM_PARSERS: NonNullable<IpExtractionOptions['ipHeaderParsers']> =
+  {};
+
+/**
+ * merges caller parsers over {@link DEFAULT_IP_HEADER_PARSERS}, resolving built-in names,
+ * keyed by lowercased header name. cached per registry object.
+ */
+function compileHeaderParsers(
+  parsers: NonNullable<IpExtractionOptions['ipHeaderParsers']>
+): ReadonlyMap<string, IpHeaderParser> {
+  const cached = compiledHeaderParsers.get(parsers);
+  if (cached !== undefined) return cached;
+
+  const out = new Map<string, IpHeaderParser>();
+
+  for (const layer of [DEFAULT_IP_HEADER_PARSERS, parsers]) {
+    for (const [name, parser] of Object.entries(layer)) {
+      if (typeof parser === 'function') {
+        out.set(name.toLowerCase(), parser);
+        continue;
       }
-      continue;
+      if (!Object.hasOwn(BUILTIN_IP_HEADER_PARSERS, parser)) {
+        throw new TypeError(`unknown ip header parser: ${String(parser)}`);
+      }
+      out.set(name.toLowerCase(), BUILTIN_IP_HEADER_PARSERS[parser]);
     }
+  }
 
-    if (normalizedName === 'x-forwarded-for') {
-      const ip = scanXForwardedFor(value);
-      if (ip !== null) return ip;
-      continue;
+  compiledHeaderParsers.set(parsers, out);
+  return out;
+}
+
+/**
+ * splits a header value into its hop entries, left-most (furthest from us) first.
+ *
+ * the parser registered for the header decides the split: forwarded contributes one entry
+ * per forwarded-element, x-forwarded-for style lists one entry per comma-separated value,
+ * and headers without a parser a single entry. entries that carry no usable identifier are
+ * kept as null so hop positions stay aligned with the chain.
+ *
+ * whatever a parser returns is still validated as an ip literal, so a custom parser can
+ * reshape a header but never smuggle a non-ip into the anchor.
+ */
+function splitHeaderEntries(
+  normalizedName: string,
+  value: string,
+  compiled: CompiledExtraction
+): readonly Optional<string>[] {
+  const parser = compiled.parsers.get(normalizedName);
+  return parser === undefined ? [value.trim()] : parser(value);
+}
+
+function parseCommaSeparatedList(value: string): readonly Optional<string>[] {
+  return value.split(',').map((part) => part.trim());
+}
+
+/**
+ * cloudfront-viewer-address is always "ip:port", and ipv6 is not bracketed, so the port is
+ * whatever follows the last colon.
+ */
+function stripTrailingPort(value: string): Optional<string> {
+  const colon = value.lastIndexOf(':');
+  if (colon <= 0) return null;
+  if (!/^\d{1,5}$/.test(value.slice(colon + 1))) return null;
+  return value.slice(0, colon);
+}
+
+function unused(value: Optional<string>, hop: number): IpCandidateExplanation {
+  return { hop, value, ip: null, outcome: 'not-consulted', reason: null };
+}
+
+function checked(
+  value: Optional<string>,
+  hop: number,
+  check: IpCandidateCheck,
+  selected: boolean
+): IpCandidateExplanation {
+  return {
+    hop,
+    value,
+    ip: check.ip,
+    outcome: selected ? 'selected' : 'rejected',
+    reason: check.reason,
+  };
+}
+
+/**
+ * applies the `nonPublicIps: 'skip'` policy to a candidate that is already a valid literal.
+ */
+function applyIpPolicy(
+  check: IpCandidateCheck,
+  compiled: CompiledExtraction
+): IpCandidateCheck {
+  if (!compiled.skipNonPublic || check.ip === null) return check;
+  return classifyIp(check.ip) === 'public' ? check : rejected('non-public');
+}
+
+function pickLeftmost(
+  entries: readonly Optional<string>[],
+  compiled: CompiledExtraction,
+  candidates: Possible<IpCandidateExplanation[]>
+): HeaderPick {
+  for (let i = 0; i < entries.length; i++) {
+    const check = applyIpPolicy(checkIpCandidate(entries[i]!), compiled);
+    const selected = check.ip !== null;
+
+    if (candidates !== undefined) {
+      candidates[i] = checked(entries[i]!, i, check, selected);
     }
 
-    const ip = normalizeIpCandidate(value.trim());
-    if (ip !== null) return ip;
+    if (check.ip !== null) return { ip: check.ip, hop: i, outcome: 'selected' };
   }
 
-  return null;
+  return { ip: null, hop: null, outcome: 'no-valid-ip' };
 }
 
-function scanXForwardedFor(value: string): Optional<string> {
-  const parts = value.split(',');
-  for (const part of parts) {
-    const ip = normalizeIpCandidate(part.trim());
-    if (ip !== null) return ip;
+/**
+ * picks the entry appended by the outermost trusted proxy, counting from the right.
+ *
+ * with n trusted hops the client is the n-th entry from the right. a chain shorter than n
+ * means the request did not pass through every trusted proxy, so nothing in it can be
+ * trusted and the header yields no ip. the same applies when the entry at that position is
+ * not a valid ip literal, or is rejected by the non-public policy: we never slide further
+ * left into client-controlled entries.
+ */
+function pickAtTrustedHop(
+  entries: readonly Optional<string>[],
+  hops: number,
+  compiled: CompiledExtraction,
+  candidates: Possible<IpCandidateExplanation[]>
+): HeaderPick {
+  const index = entries.length - hops;
+  if (index < 0) return { ip: null, hop: null, outcome: 'chain-too-short' };
+
+  if (candidates !== undefined) {
+    for (let i = index + 1; i < entries.length; i++) {
+      candidates[i] = {
+        ...unused(entries[i]!, i),
+        outcome: 'skipped',
+        reason: 'trusted-hop',
+      };
+    }
   }
-  return null;
+
+  const check = applyIpPolicy(checkIpCandidate(entries[index]!), compiled);
+
+  if (candidates !== undefined) {
+    candidates[index] = checked(
+      entries[index]!,
+      index,
+      check,
+      check.ip !== null
+    );
+  }
+
+  return check.ip === null
+    ? { ip: null, hop: null, outcome: 'no-valid-ip' }
+    : { ip: check.ip, hop: index, outcome: 'selected' };
 }
 
-function parseForwardedForIdentifiers(value: string): readonly string[] {
+/**
+ * walks the chain from the right, skipping addresses inside our own proxy ranges, and returns
+ * the first address that is not one of them.
+ *
+ * if every entry is a trusted proxy, the left-most one is returned: the request originated
+ * inside the trusted network. an entry that is not a valid ip literal stops the walk and the
+ * header yields no ip, because the proxy that wrote it cannot be identified. the non-public
+ * policy is applied to the address the walk stops at, after trusted proxies are skipped,
+ * since our own proxies usually sit in private ranges.
+ */
+function pickFirstUntrusted(
+  entries: readonly Optional<string>[],
+  trustedProxies: readonly CidrRange[],
+  compiled: CompiledExtraction,
+  candidates: Possible<IpCandidateExplanation[]>
+): HeaderPick {
+  for (let i = entries.length - 1; i >= 0; i--) {
+    const check = checkIpCandidate(entries[i]!);
+
+    if (check.ip === null) {
+      if (candidates !== undefined) {
+        candidates[i] = checked(entries[i]!, i, check, false);
+      }
+      return { ip: null, hop: null, outcome: 'no-valid-ip' };
+    }
+
+    const trusted = isInRanges(check.ip, trustedProxies);
+
+    if (!trusted || i === 0) {
+      const picked = applyIpPolicy(check, compiled);
+      if (candidates !== undefined) {
+        candidates[i] = checked(entries[i]!, i, picked, picked.ip !== null);
+      }
+      return picked.ip === null
+        ? { ip: null, hop: null, outcome: 'no-valid-ip' }
+        : { ip: picked.ip, hop: i, outcome: 'selected' };
+    }
+
+    if (candidates !== undefined) {
+      candidates[i] = {
+        ...checked(entries[i]!, i, check, false),
+        outcome: 'skipped',
+        reason: 'trusted-proxy',
+      };
+    }
+  }
+
+  return { ip: null, hop: null, outcome: 'no-valid-ip' };
+}
+
+/**
+ * returns the first for= identifier of every forwarded-element, in order.
+ *
+ * rfc 7239 forbids repeating a parameter within one element, so later for= directives
+ * in the same element are ignored.
+ */
+function parseForwardedForIdentifiers(
+  value: string
+): readonly Optional<string>[] {
   const entries = splitOutsideQuotes(value, ',');
-  const out: string[] = [];
+  const out: Optional<string>[] = [];
 
   for (const entry of entries) {
-    const directives = splitOutsideQuotes(entry, ';');
+    out.push(parseForwardedElementFor(entry));
+  }
+
+  return out;
+}
 
-    for (const directive of directives) {
-      const trimmed = directive.trim();
-      if (trimmed === '') continue;
+function parseForwardedElementFor(entry: string): Optional<string> {
+  const directives = splitOutsideQuotes(entry, ';');
 
-      const eq = trimmed.indexOf('=');
-      if (eq < 0) continue;
+  for (const directive of directives) {
+    const trimmed = directive.trim();
+    if (trimmed === '') continue;
 
-      const rawKey = trimmed.slice(0, eq).trim().toLowerCase();
-      if (rawKey !== 'for') continue;
+    const eq = trimmed.indexOf('=');
+    if (eq < 0) continue;
 
-      const rawValue = trimmed.slice(eq + 1).trim();
-      const parsedValue = parseForwardedValue(rawValue);
-      if (parsedValue === null) continue;
+    const rawKey = trimmed.slice(0, eq).trim().toLowerCase();
+    if (rawKey !== 'for') continue;
 
-      const cleaned = cleanForwardedIdentifier(parsedValue);
-      if (cleaned !== null) out.push(cleaned);
-    }
+    const rawValue = trimmed.slice(eq + 1).trim();
+
+    // malformed values are kept so they are rejected (and reported) as invalid literals.
+    return cleanForwardedIdentifier(parseForwardedValue(rawValue) ?? rawValue);
   }
 
-  return out;
+  return null;
 }
 
 /**
@@ -198,94 +708,93 @@ function cleanForwardedIdentifier(value: string): Optional<string> {
   if (trimmed === '') return null;
 
   // tolerate accidental quoting if upstream parsing didn't already unquote.
+  // brackets and ports are handled by checkIpCandidate, like in every other header.
   const unquoted =
     trimmed.startsWith('"') && trimmed.endsWith('"') && trimmed.length >= 2
       ? trimmed.slice(1, -1).trim()
       : trimmed;
 
-  if (unquoted === '') return null;
-
-  if (unquoted.startsWith('[')) {
-    return stripBracketedIpv6AndOptionalPort(unquoted);
-  }
+  return unquoted === '' ? null : unquoted;
+}
 
-  // only strip ports for plain ipv4:port to avoid false positives on ipv6 forms.
-  if (IPV4_WITH_PORT_RE.test(unquoted)) {
-    return unquoted.slice(0, unquoted.lastIndexOf(':'));
-  }
+type IpCandidateCheck =
+  | { readonly ip: string; readonly reason: null }
+  | { readonly ip: null; readonly reason: IpCandidateReason };
 
-  return unquoted;
+function rejected(reason: IpCandidateReason): IpCandidateCheck {
+  return { ip: null, reason };
 }
 
-function stripBracketedIpv6AndOptionalPort(value: string): Optional<string> {
+/**
+ * strips "[v6]" or "[v6]:port" down to the bracketed text, or says why it cannot.
+ * the returned text is not validated as an address yet.
+ */
+function stripBracketedIpv6AndOptionalPort(value: string): IpCandidateCheck {
   const closingIndex = value.indexOf(']');
-  if (closingIndex <= 1) return null;
+  if (closingIndex <= 1) return rejected('invalid-literal');
 
   const inside = value.slice(1, closingIndex);
   const rest = value.slice(closingIndex + 1);
 
-  if (rest === '') return inside;
+  if (rest === '') return { ip: inside, reason: null };
 
-  if (!rest.startsWith(':')) return null;
+  if (!rest.startsWith(':')) return rejected('invalid-literal');
 
-  const portStr = rest.slice(1);
-  if (!/^\d+$/.test(portStr)) return null;
+  return isValidPort(rest.slice(1))
+    ? { ip: inside, reason: null }
+    : rejected('invalid-port');
+}
 
+function isValidPort(portStr: string): boolean {
+  if (!/^\d+$/.test(portStr)) return false;
   const port = Number.parseInt(portStr, 10);
-  if (!Number.isFinite(port) || port < 0 || port > 65535) return null;
-
-  return inside;
+  return Number.isFinite(port) && port >= 0 && port <= 65535;
 }
 
 function normalizeIpCandidate(value: Optional<string>): Optional<string> {
-  if (value === null) return null;
+  return checkIpCandidate(value).ip;
+}
+
+function checkIpCandidate(value: Optional<string>): IpCandidateCheck {
+  if (value === null) return rejected('empty');
 
   const trimmed = value.trim();
-  if (trimmed === '') return null;
+  if (trimmed === '') return rejected('empty');
 
   const lower = trimmed.toLowerCase();
-  if (INVALID_IP_TOKENS.has(lower)) return null;
+  if (INVALID_IP_TOKENS.has(lower)) return rejected('unknown-token');
 
   // rfc 7239 defines "_" prefixed obfuscated identifiers.
   // some stacks may not follow the prefix rule, so we also validate ip literals below.
-  if (trimmed.startsWith('_')) return null;
+  if (trimmed.startsWith('_')) return rejected('obfuscated');
 
   let candidate = trimmed;
 
   // accept bracketed ipv6 in any header, not just forwarded, but only with optional :port.
   if (candidate.startsWith('[')) {
     const stripped = stripBracketedIpv6AndOptionalPort(candidate);
-    if (stripped === null) return null;
-    candidate = stripped;
+    if (stripped.ip === null) return stripped;
+    candidate = stripped.ip;
   }
 
+  // only strip ports for plain ipv4:port to avoid false positives on ipv6 forms.
   if (IPV4_WITH_PORT_RE.test(candidate)) {
-    candidate = candidate.slice(0, candidate.lastIndexOf(':'));
+    const colon = candidate.lastIndexOf(':');
+    if (!isValidPort(candidate.slice(colon + 1))) {
+      return rejected('invalid-port');
+    }
+    candidate = candidate.slice(0, colon);
   }
 
-  if (isIpv4Literal(candidate)) return candidate;
-  if (isIpv6Literal(candidate)) return candidate;
+  if (isIpv4Literal(candidate)) return { ip: candidate, reason: null };
+  if (isIpv6Literal(candidate)) return { ip: candidate, reason: null };
 
   // reject non-ip values
-  return null;
+  return rejected('invalid-literal');
 }
 
 function isIpv4Literal(input: string): boolean {
-  const parts = input.split('.');
-  if (parts.length !== 4) return false;
-
-  for (const part of parts) {
-    if (part === '') return false;
-    if (!/^\d+$/.test(part)) return false;
-
-    const n = Number.parseInt(part, 10);
-    if (!Number.isFinite(n) || n < 0 || n > 255) return false;
-
-    // avoid ambiguous forms like 010 which some parsers treat as octal.
-    if (part.length > 1 && part.startsWith('0')) return false;
-  }
-
-  return true;
+  return parseIpv4(input) !== null;
 }
 
 function isIpv6Literal(input: string): boolean {
@@ -296,117 +805,3 @@ function isIpv6Literal(input: string): boolean {
   if (!raw.includes(':')) return false;
   return parseIpv6ToBytes(raw) !== null;
 }
-
-/**
- * minimal ipv6 parser used only to validate literals.
- *
- * @see https://datatracker.ietf.org/doc/html/rfc4291
- */
-function parseIpv6ToBytes(input: string): Optional<Uint8Array> {
-  const s = input.trim();
-  if (s === '') return null;
-
-  const dbl = s.indexOf('::');
-
-  let leftParts: string[] = [];
-  let rightParts: string[] = [];
-
-  if (dbl >= 0) {
-    // only one "::" is allowed in a valid ipv6 literal.
-    if (s.indexOf('::', dbl + 1) !== -1) return null;
-
-    const leftRaw = s.slice(0, dbl);
-    const rightRaw = s.slice(dbl + 2);
-
-    leftParts = leftRaw === '' ? [] : leftRaw.split(':');
-    rightParts = rightRaw === '' ? [] : rightRaw.split(':');
-  } else {
-    leftParts = s.split(':');
-  }
-
-  const leftGroups = parseIpv6Groups(leftParts);
-  if (leftGroups === null) return null;
-
-  const rightGroups = parseIpv6Groups(rightParts);
-  if (rightGroups === null) return null;
-
-  if (dbl < 0) {
-    if (leftGroups.length !== 8) return null;
-    return groupsToBytes(leftGroups);
-  }
-
-  const total = leftGroups.length + rightGroups.length;
-  if (total > 8) return null;
-
-  const missing = 8 - total;
-  const groups: number[] = [
-    ...leftGroups,
-    ...new Array(missing).fill(0),
-    ...rightGroups,
-  ];
-
-  return groupsToBytes(groups);
-}
-
-function parseIpv6Groups(parts: string[]): Optional<number[]> {
-  const out: number[] = [];
-
-  for (let i = 0; i < parts.length; i++) {
-    const p = parts[i]!;
-    if (p === '') return null;
-
-    // rfc 4291 allows an embedded ipv4 dotted quad in the last two groups.
-    if (p.includes('.')) {
-      if (i !== parts.length - 1) return null;
-      const v4 = parseIpv4(p);
-      if (v4 === null) return null;
-      out.push((v4[0] << 8) | v4[1]);
-      out.push((v4[2] << 8) | v4[3]);
-      continue;
-    }
-
-    if (p.length > 4) return null;
-    if (!/^[0-9a-f]{1,4}$/i.test(p)) return null;
-
-    const n = Number.parseInt(p, 16);
-    if (!Number.isFinite(n) || n < 0 || n > 0xffff) return null;
-    out.push(n);
-  }
-
-  return out;
-}
-
-function groupsToBytes(groups: number[]): Optional<Uint8Array> {
-  if (groups.length !== 8) return null;
-
-  const bytes = new Uint8Array(16);
-
-  for (let i = 0; i < 8; i++) {
-    const v = groups[i]!;
-    bytes[i * 2]! = (v >> 8) & 0xff;
-    bytes[i * 2 + 1]! = v & 0xff;
-  }
-
-  return bytes;
-}
-
-function parseIpv4(s: string): Optional<Ipv4Tuple> {
-  const parts = s.split('.');
-  if (parts.length !== 4) return null;
-
-  const out: number[] = [];
-
-  for (const part of parts) {
-    if (part === '') return null;
-    if (!/^\d+$/.test(part)) return null;
-
-    const n = Number.parseInt(part, 10);
-    if (!Number.isFinite(n) || n < 0 || n > 255) return null;
-
-    if (part.length > 1 && part.startsWith('0')) return null;
-
-    out.push(n);
-  }
-
-  return [out[0]!, out[1]!, out[2]!, out[3]!];
-}
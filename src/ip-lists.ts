@@ -0,0 +1,89 @@
+import { ipToBytes, isIpv4MappedIpv6, isIpv4Range, parseCidr } from './ip-cidr';
+import { createPrefixTrie, insertPrefix, longestPrefixMatch } from './ip-trie';
+import type { PrefixTrie } from './ip-trie';
+import type { IpVerdict, Optional, Possible } from './types';
+
+/**
+ * ipv4 and ipv6 entries live in separate tries, like subnet overrides. in one trie an ipv6
+ * range covering ::ffff:0:0/96 (such as ::/0) would match every ipv4 client.
+ */
+interface CompiledIpList {
+  readonly v4: PrefixTrie<string>;
+  readonly v6: PrefixTrie<string>;
+}
+
+const compiledIpLists = new WeakMap<readonly string[], CompiledIpList>();
+
+/**
+ * compile an allow or deny list of cidr ranges and bare addresses into prefix tries whose
+ * values are the entries as written. ipv6 entries inside ::ffff:0:0/96 go with ipv4.
+ * cached per list instance.
+ *
+ * @throws {TypeError} if an entry is not a valid address or cidr range
+ */
+function compileIpList(
+  list: readonly string[],
+  name: 'allowList' | 'denyList'
+): CompiledIpList {
+  const cached = compiledIpLists.get(list);
+  if (cached !== undefined) return cached;
+
+  const compiled = {
+    v4: createPrefixTrie<string>(),
+    v6: createPrefixTrie<string>(),
+  };
+
+  for (const entry of list) {
+    const range = parseCidr(entry);
+    if (range === null) throw new TypeError(`invalid ${name} entry: ${entry}`);
+    insertPrefix(
+      isIpv4Range(range) ? compiled.v4 : compiled.v6,
+      range,
+      entry.trim()
+    );
+  }
+
+  compiledIpLists.set(list, compiled);
+  return compiled;
+}
+
+export interface IpListCheck {
+  readonly verdict: IpVerdict;
+  readonly matchedRange: Optional<string>;
+}
+
+const NORMAL: IpListCheck = { verdict: 'normal', matchedRange: null };
+
+/**
+ * decide whether a client address is exempt from limiting, denied outright, or normal.
+ *
+ * the deny list is checked first, so an address inside both lists is denied: a known-bad
+ * range carved out of a partner network should still be blocked. within one list the most
+ * specific range wins and is reported as written.
+ */
+export function checkIpLists(
+  ip: Optional<string>,
+  allowList: Possible<readonly string[]>,
+  denyList: Possible<readonly string[]>
+): IpListCheck {
+  const deny =
+    denyList === undefined ? null : compileIpList(denyList, 'denyList');
+  const allow =
+    allowList === undefined ? null : compileIpList(allowList, 'allowList');
+
+  const bytes = ip === null ? null : ipToBytes(ip);
+  if (bytes === null) return NORMAL;
+
+  const family = isIpv4MappedIpv6(bytes) ? 'v4' : 'v6';
+
+  const denied = deny === null ? null : longestPrefixMatch(deny[family], bytes);
+  if (denied !== null) return { verdict: 'deny', matchedRange: denied.value };
+
+  const allowed =
+    allow === null ? null : longestPrefixMatch(allow[family], bytes);
+  if (allowed !== null) {
+    return { verdict: 'exempt', matchedRange: allowed.value };
+  }
+
+  return NORMAL;
+}
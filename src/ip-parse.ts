@@ -0,0 +1,116 @@
+import type { Ipv4Tuple, Optional } from './types';
+
+/**
+ * strict ipv6 literal parser. accepts "::" compression and an embedded ipv4 tail, rejects
+ * hex prefixes, overlong groups and repeated "::". zone identifiers must be stripped first.
+ *
+ * @see https://datatracker.ietf.org/doc/html/rfc4291#section-2.2
+ */
+export function parseIpv6ToBytes(input: string): Optional<Uint8Array> {
+  const s = input.trim();
+  if (s === '') return null;
+
+  const dbl = s.indexOf('::');
+
+  let leftParts: string[] = [];
+  let rightParts: string[] = [];
+
+  if (dbl >= 0) {
+    // only one "::" is allowed in a valid ipv6 literal.
+    if (s.indexOf('::', dbl + 1) !== -1) return null;
+
+    const leftRaw = s.slice(0, dbl);
+    const rightRaw = s.slice(dbl + 2);
+
+    leftParts = leftRaw === '' ? [] : leftRaw.split(':');
+    rightParts = rightRaw === '' ? [] : rightRaw.split(':');
+  } else {
+    leftParts = s.split(':');
+  }
+
+  const leftGroups = parseIpv6Groups(leftParts);
+  if (leftGroups === null) return null;
+
+  const rightGroups = parseIpv6Groups(rightParts);
+  if (rightGroups === null) return null;
+
+  if (dbl < 0) {
+    if (leftGroups.length !== 8) return null;
+    return groupsToBytes(leftGroups);
+  }
+
+  const total = leftGroups.length + rightGroups.length;
+  if (total > 8) return null;
+
+  const missing = 8 - total;
+  const groups: number[] = [
+    ...leftGroups,
+    ...new Array(missing).fill(0),
+    ...rightGroups,
+  ];
+
+  return groupsToBytes(groups);
+}
+
+function parseIpv6Groups(parts: string[]): Optional<number[]> {
+  const out: number[] = [];
+
+  for (let i = 0; i < parts.length; i++) {
+    const p = parts[i]!;
+    if (p === '') return null;
+
+    if (p.includes('.')) {
+      if (i !== parts.length - 1) return null;
+      const v4 = parseIpv4(p);
+      if (v4 === null) return null;
+      out.push((v4[0] << 8) | v4[1]);
+      out.push((v4[2] << 8) | v4[3]);
+      continue;
+    }
+
+    if (p.length > 4) return null;
+    if (!/^[0-9a-f]{1,4}$/i.test(p)) return null;
+
+    const n = Number.parseInt(p, 16);
+    if (!Number.isFinite(n) || n < 0 || n > 0xffff) return null;
+    out.push(n);
+  }
+
+  return out;
+}
+
+function groupsToBytes(groups: number[]): Optional<Uint8Array> {
+  if (groups.length !== 8) return null;
+
+  const bytes = new Uint8Array(16);
+
+  for (let i = 0; i < 8; i++) {
+    const v = groups[i]!;
+    bytes[i * 2]! = (v >> 8) & 0xff;
+    bytes[i * 2 + 1]! = v & 0xff;
+  }
+
+  return bytes;
+}
+
+export function parseIpv4(s: string): Optional<Ipv4Tuple> {
+  const parts = s.split('.');
+  if (parts.length !== 4) return null;
+
+  const nums: number[] = [];
+
+  for (const part of parts) {
+    if (part === '') return null;
+    if (!/^\d+$/.test(part)) return null;
+
+    const n = Number.parseInt(part, 10);
+    if (!Number.isFinite(n) || n < 0 || n > 255) return null;
+
+    // avoid ambiguous forms like 010 which some parsers treat as octal.
+    if (part.length > 1 && part.startsWith('0')) return null;
+
+    nums.push(n);
+  }
+
+  return [nums[0]!, nums[1]!, nums[2]!, nums[3]!];
+}
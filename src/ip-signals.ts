@@ -0,0 +1,73 @@
+import { isSameAddress } from './ip-cidr';
+import { classifyIp } from './ip-class';
+import { checkPeer, collectHeaderClients } from './ip-extraction';
+import type { IpExtractionOptions, IpSpoofingSignal, Optional } from './types';
+
+/**
+ * cross-check every configured ip header instead of stopping at the first match.
+ *
+ * a well-behaved edge writes the same client into every header it sets. when one header
+ * names a different client than the header that wins precedence, or a client position holds
+ * an address that is not public (see classifyIp), somebody other than our edge most likely
+ * wrote it.
+ * none of this changes which ip is extracted, it only reports what looks wrong.
+ *
+ * @param headers request headers
+ * @param precedence ordered list of headers to check
+ * @param options per-header trust settings, applied to each header as in extraction except
+ *   that `nonPublicIps: 'skip'` never hides a client
+ * @param remoteAddress the socket peer address, if the runtime exposes one
+ * @returns signals in precedence order, empty when nothing looks suspicious
+ */
+export function detectSpoofingSignals(
+  headers: Headers,
+  precedence: readonly string[],
+  options?: IpExtractionOptions,
+  remoteAddress?: Optional<string>
+): readonly IpSpoofingSignal[] {
+  const signals: IpSpoofingSignal[] = [];
+
+  const { peer, peerTrusted } = checkPeer(remoteAddress ?? null, options);
+  if (peerTrusted === false) {
+    for (const headerName of precedence) {
+      if (headers.has(headerName)) {
+        signals.push({
+          kind: 'untrusted-forwarding',
+          header: headerName.toLowerCase(),
+          peer,
+        });
+      }
+    }
+  }
+
+  const clients = collectHeaderClients(headers, precedence, options);
+  const primary = clients[0];
+
+  for (const client of clients) {
+    const ipClass = classifyIp(client.ip);
+    if (ipClass !== null && ipClass !== 'public') {
+      signals.push({
+        kind: 'non-public-client',
+        header: client.header,
+        ip: client.ip,
+        ipClass,
+      });
+    }
+
+    if (
+      primary !== undefined &&
+      client !== primary &&
+      !isSameAddress(client.ip, primary.ip)
+    ) {
+      signals.push({
+        kind: 'header-mismatch',
+        header: client.header,
+        ip: client.ip,
+        primaryHeader: primary.header,
+        primaryIp: primary.ip,
+      });
+    }
+  }
+
+  return signals;
+}
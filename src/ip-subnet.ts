@@ -1,189 +1,330 @@
-import type { Ipv4Tuple, Optional } from './types';
+import {
+  ipv4ToMapped,
+  isIpv4MappedIpv6,
+  isIpv4Range,
+  maskBytes,
+  parseCidr,
+} from './ip-cidr';
+import { parseIpv4, parseIpv6ToBytes } from './ip-parse';
+import { createPrefixTrie, insertPrefix, longestPrefixMatch } from './ip-trie';
+import type { PrefixTrie } from './ip-trie';
+import type {
+  IpBucketOptions,
+  IpFormat,
+  Ipv4Tuple,
+  Optional,
+  Possible,
+} from './types';
 
 /**
  * normalize an ip string for bucket-based identity.
  *
  * full ipv6 is too granular under privacy extensions, so we subnet-mask.
  * default ipv6 mask is /56, which is a common residential allocation granularity.
- * ipv4-mapped ipv6 (::ffff:a.b.c.d) is normalized to ipv4 to avoid collapsing under masking.
+ * ipv4 is kept whole (/32) unless `ipv4Subnet` asks for a coarser bucket, e.g. /24 to fold
+ * a rented block into one key.
+ * ipv4-mapped ipv6 (::ffff:a.b.c.d) is normalized to ipv4 to avoid collapsing under masking,
+ * and is then masked with the ipv4 prefix like any other ipv4 address.
+ * the same goes for transition addresses that carry an ipv4 client: nat64 (64:ff9b::/96 and
+ * the local-use 64:ff9b:1::/48, both with the /96 embedding), 6to4 (2002::/16) and teredo
+ * (2001::/32, client bits inverted). each can be switched off with its `unwrap*` option.
  * zone identifiers (fe80::1%eth0) are stripped because they are interface-local routing hints,
  * not part of the address bits.
+ * `subnetOverrides` replaces the global prefix for addresses inside listed ranges, using the
+ * most specific range that contains the address.
+ *
+ * the second argument is either the ipv6 prefix alone or a full set of bucket options.
  *
  * @see https://datatracker.ietf.org/doc/html/rfc4291
  * @see https://datatracker.ietf.org/doc/html/rfc5952
  * @see https://www.iana.org/assignments/iana-ipv6-special-registry/iana-ipv6-special-registry.xhtml
  * @see https://datatracker.ietf.org/doc/html/rfc4007
  * @see https://datatracker.ietf.org/doc/html/rfc6874
+ * @see https://datatracker.ietf.org/doc/html/rfc6052
+ * @see https://datatracker.ietf.org/doc/html/rfc8215
+ * @see https://datatracker.ietf.org/doc/html/rfc3056
+ * @see https://datatracker.ietf.org/doc/html/rfc4380
  */
 export function normalizeIpForBucket(
   ip: Optional<string>,
-  ipv6Subnet?: number
+  options?: number | IpBucketOptions
 ): Optional<string> {
   if (ip === null) return null;
 
+  const bucket: IpBucketOptions =
+    typeof options === 'number' ? { ipv6Subnet: options } : options ?? {};
+
+  return bucketIp(ip, bucket).ip;
+}
+
+export interface IpBucket {
+  /** the bucket in full form, or the raw input if it is not an ip literal. */
+  readonly ip: string;
+  /** the prefix length the bucket was masked to, null for raw input. */
+  readonly prefix: Optional<number>;
+}
+
+/**
+ * {@link normalizeIpForBucket}, also reporting which prefix length was applied.
+ */
+export function bucketIp(ip: string, bucket: IpBucketOptions): IpBucket {
   const zoneCut = ip.indexOf('%');
   const raw = (zoneCut >= 0 ? ip.slice(0, zoneCut) : ip).toLowerCase();
 
-  if (!raw.includes(':')) return raw;
+  const overrides =
+    bucket.subnetOverrides === undefined
+      ? null
+      : compileSubnetOverrides(bucket.subnetOverrides);
 
-  const prefix = ipv6Subnet ?? 56;
+  if (!raw.includes(':')) {
+    const v4 = parseIpv4(raw);
+    if (v4 === null) return { ip: raw, prefix: null };
+    return maskIpv4(v4, bucket.ipv4Subnet, overrides);
+  }
 
-  if (!Number.isInteger(prefix) || prefix < 1 || prefix > 128) {
+  const fallback = bucket.ipv6Subnet ?? 56;
+
+  if (!Number.isInteger(fallback) || fallback < 1 || fallback > 128) {
     throw new RangeError('ipv6Subnet must be an integer in range 1..128');
   }
 
   const bytes = parseIpv6ToBytes(raw);
-  if (bytes === null) return raw;
+  if (bytes === null) return { ip: raw, prefix: null };
 
-  if (isIpv4MappedIpv6(bytes)) {
-    return `${bytes[12]!}.${bytes[13]!}.${bytes[14]!}.${bytes[15]!}`;
-  }
+  const v4 = embeddedIpv4(bytes, bucket);
+  if (v4 !== null) return maskIpv4(v4, bucket.ipv4Subnet, overrides);
+
+  const prefix =
+    (overrides === null ? null : longestPrefixMatch(overrides.v6, bytes))
+      ?.value ?? fallback;
 
   maskBytes(bytes, prefix);
-  return bytesToFullIpv6(bytes);
+  return { ip: bytesToFullIpv6(bytes), prefix };
 }
 
-function isIpv4MappedIpv6(bytes: Uint8Array): boolean {
-  for (let i = 0; i < 10; i++) {
-    if (bytes[i]! !== 0) return false;
-  }
-  return bytes[10]! === 0xff && bytes[11]! === 0xff;
-}
+function maskIpv4(
+  v4: Ipv4Tuple,
+  ipv4Subnet: Possible<number>,
+  overrides: Optional<SubnetOverrides>
+): IpBucket {
+  const fallback = ipv4Subnet ?? 32;
 
-function maskBytes(bytes: Uint8Array, prefix: number): void {
-  const fullBytes = Math.floor(prefix / 8);
-  const rem = prefix % 8;
+  if (!Number.isInteger(fallback) || fallback < 1 || fallback > 32) {
+    throw new RangeError('ipv4Subnet must be an integer in range 1..32');
+  }
 
-  if (fullBytes >= 16) return;
+  const prefix =
+    (overrides === null
+      ? null
+      : longestPrefixMatch(overrides.v4, ipv4ToMapped(v4))
+    )?.value ?? fallback;
 
-  if (rem !== 0) {
-    const mask = (0xff << (8 - rem)) & 0xff;
-    bytes[fullBytes]! &= mask;
-    for (let i = fullBytes + 1; i < 16; i++) {
-      bytes[i]! = 0;
-    }
-  } else {
-    for (let i = fullBytes; i < 16; i++) {
-      bytes[i]! = 0;
-    }
-  }
+  const bytes = Uint8Array.from(v4);
+  maskBytes(bytes, prefix);
+  return { ip: `${bytes[0]!}.${bytes[1]!}.${bytes[2]!}.${bytes[3]!}`, prefix };
 }
 
-function bytesToFullIpv6(bytes: Uint8Array): string {
-  const parts: string[] = [];
-  for (let i = 0; i < 16; i += 2) {
-    const hi = bytes[i]!;
-    const lo = bytes[i + 1]!;
-    const value = (hi << 8) | lo;
-    parts.push(value.toString(16).padStart(4, '0'));
-  }
-  return parts.join(':');
+/**
+ * ipv4 and ipv6 overrides live in separate tries. ipv4 clients are looked up as mapped
+ * addresses, so in one trie an ipv6 range covering ::ffff:0:0/96 (such as ::/0) would hand
+ * its ipv6 length to an ipv4 client.
+ */
+interface SubnetOverrides {
+  readonly v4: PrefixTrie<number>;
+  readonly v6: PrefixTrie<number>;
 }
 
-function parseIpv6ToBytes(input: string): Optional<Uint8Array> {
-  const s = input.trim();
-  if (s === '') return null;
+const compiledSubnetOverrides = new WeakMap<
+  Readonly<Record<string, number>>,
+  SubnetOverrides
+>();
 
-  const dbl = s.indexOf('::');
-
-  let leftParts: string[] = [];
-  let rightParts: string[] = [];
+/**
+ * compile a cidr -> prefix length table into prefix tries, one per family. an ipv6 key inside
+ * ::ffff:0:0/96 whose length reaches into the ipv4 bits also applies to ipv4 clients, with
+ * its length converted. cached per table object.
+ *
+ * @throws {TypeError} if a key is not a valid address or cidr range
+ * @throws {RangeError} if a length is not an integer in 1..32 (ipv4 range) or 1..128 (ipv6)
+ */
+function compileSubnetOverrides(
+  table: Readonly<Record<string, number>>
+): SubnetOverrides {
+  const cached = compiledSubnetOverrides.get(table);
+  if (cached !== undefined) return cached;
+
+  const overrides = {
+    v4: createPrefixTrie<number>(),
+    v6: createPrefixTrie<number>(),
+  };
+
+  for (const [cidr, length] of Object.entries(table)) {
+    const range = parseCidr(cidr);
+    if (range === null) {
+      throw new TypeError(`invalid subnet override range: ${cidr}`);
+    }
 
-  if (dbl >= 0) {
-    // only one "::" is allowed in a valid ipv6 literal.
-    if (s.indexOf('::', dbl + 1) !== -1) return null;
+    const isV6 = cidr.includes(':');
+    const max = isV6 ? 128 : 32;
+    if (!Number.isInteger(length) || length < 1 || length > max) {
+      throw new RangeError(
+        `subnet override for ${cidr} must be an integer in range 1..${max}`
+      );
+    }
 
-    const leftRaw = s.slice(0, dbl);
-    const rightRaw = s.slice(dbl + 2);
+    if (!isV6) {
+      insertPrefix(overrides.v4, range, length);
+      continue;
+    }
 
-    leftParts = leftRaw === '' ? [] : leftRaw.split(':');
-    rightParts = rightRaw === '' ? [] : rightRaw.split(':');
-  } else {
-    leftParts = s.split(':');
+    insertPrefix(overrides.v6, range, length);
+    if (length > 96 && isIpv4Range(range)) {
+      insertPrefix(overrides.v4, range, length - 96);
+    }
   }
 
-  const leftGroups = parseIpv6Groups(leftParts);
-  if (leftGroups === null) return null;
-
-  const rightGroups = parseIpv6Groups(rightParts);
-  if (rightGroups === null) return null;
+  compiledSubnetOverrides.set(table, overrides);
+  return overrides;
+}
 
-  if (dbl < 0) {
-    if (leftGroups.length !== 8) return null;
-    return groupsToBytes(leftGroups);
+/**
+ * the ipv4 client carried by an ipv4-mapped or transition address, or null.
+ */
+function embeddedIpv4(
+  bytes: Uint8Array,
+  bucket: IpBucketOptions
+): Optional<Ipv4Tuple> {
+  if (isIpv4MappedIpv6(bytes)) return ipv4At(bytes, 12);
+
+  if (bucket.unwrapNat64 !== false && isNat64(bytes)) {
+    return ipv4At(bytes, 12);
   }
 
-  const total = leftGroups.length + rightGroups.length;
-  if (total > 8) return null;
+  if (bucket.unwrap6to4 !== false && bytes[0]! === 0x20 && bytes[1]! === 0x02) {
+    return ipv4At(bytes, 2);
+  }
 
-  const missing = 8 - total;
-  const groups: number[] = [
-    ...leftGroups,
-    ...new Array(missing).fill(0),
-    ...rightGroups,
-  ];
+  // teredo stores the client address with every bit inverted, so nat boxes do not rewrite it.
+  if (bucket.unwrapTeredo !== false && isTeredo(bytes)) {
+    const [a, b, c, d] = ipv4At(bytes, 12);
+    return [a ^ 0xff, b ^ 0xff, c ^ 0xff, d ^ 0xff];
+  }
 
-  return groupsToBytes(groups);
+  return null;
 }
 
-function parseIpv6Groups(parts: string[]): Optional<number[]> {
-  const out: number[] = [];
-
-  for (let i = 0; i < parts.length; i++) {
-    const p = parts[i]!;
-    if (p === '') return null;
+function ipv4At(bytes: Uint8Array, offset: number): Ipv4Tuple {
+  return [
+    bytes[offset]!,
+    bytes[offset + 1]!,
+    bytes[offset + 2]!,
+    bytes[offset + 3]!,
+  ];
+}
 
-    if (p.includes('.')) {
-      if (i !== parts.length - 1) return null;
-      const v4 = parseIpv4(p);
-      if (v4 === null) return null;
-      out.push((v4[0] << 8) | v4[1]);
-      out.push((v4[2] << 8) | v4[3]);
-      continue;
-    }
+/**
+ * 64:ff9b::/96, or 64:ff9b:1::/48 where operators carve /96 translation prefixes.
+ */
+function isNat64(bytes: Uint8Array): boolean {
+  if (
+    bytes[0]! !== 0x00 ||
+    bytes[1]! !== 0x64 ||
+    bytes[2]! !== 0xff ||
+    bytes[3]! !== 0x9b
+  ) {
+    return false;
+  }
 
-    if (p.length > 4) return null;
-    if (!/^[0-9a-f]{1,4}$/i.test(p)) return null;
+  if (bytes[4]! === 0x00 && bytes[5]! === 0x01) return true;
 
-    const n = Number.parseInt(p, 16);
-    if (!Number.isFinite(n) || n < 0 || n > 0xffff) return null;
-    out.push(n);
+  for (let i = 4; i < 12; i++) {
+    if (bytes[i]! !== 0) return false;
   }
-
-  return out;
+  return true;
 }
 
-function groupsToBytes(groups: number[]): Optional<Uint8Array> {
-  if (groups.length !== 8) return null;
+function isTeredo(bytes: Uint8Array): boolean {
+  return (
+    bytes[0]! === 0x20 &&
+    bytes[1]! === 0x01 &&
+    bytes[2]! === 0x00 &&
+    bytes[3]! === 0x00
+  );
+}
 
-  const bytes = new Uint8Array(16);
+/**
+ * render a bucket produced by {@link normalizeIpForBucket} in another notation.
+ *
+ * "full" returns the bucket unchanged. "compressed" writes ipv6 in rfc 5952 canonical form.
+ * "cidr" appends the prefix length the bucket was masked to, e.g. 2001:db8:12:3400::/56 or
+ * 203.0.113.0/24, defaulting to /32 for ipv4 and /56 for ipv6. values that are not ip
+ * literals are returned as is.
+ *
+ * @see https://datatracker.ietf.org/doc/html/rfc5952#section-4
+ */
+export function formatIpBucket(
+  bucket: Optional<string>,
+  format: IpFormat,
+  prefix?: Optional<number>
+): Optional<string> {
+  if (bucket === null || format === 'full') return bucket;
 
-  for (let i = 0; i < 8; i++) {
-    const v = groups[i]!;
-    bytes[i * 2]! = (v >> 8) & 0xff;
-    bytes[i * 2 + 1]! = v & 0xff;
+  if (!bucket.includes(':')) {
+    if (format === 'compressed' || parseIpv4(bucket) === null) return bucket;
+    return `${bucket}/${prefix ?? 32}`;
   }
 
-  return bytes;
-}
+  const bytes = parseIpv6ToBytes(bucket);
+  if (bytes === null) return bucket;
 
-function parseIpv4(s: string): Optional<Ipv4Tuple> {
-  const parts = s.split('.');
-  if (parts.length !== 4) return null;
+  const compressed = bytesToCompressedIpv6(bytes);
+  return format === 'cidr' ? `${compressed}/${prefix ?? 56}` : compressed;
+}
 
-  const nums: number[] = [];
+/**
+ * rfc 5952: lowercase, no leading zeros, and the longest run of two or more zero groups
+ * (the first one on a tie) collapsed to "::". ipv4-mapped addresses keep the dotted tail.
+ */
+export function bytesToCompressedIpv6(bytes: Uint8Array): string {
+  if (isIpv4MappedIpv6(bytes)) {
+    return `::ffff:${bytes[12]!}.${bytes[13]!}.${bytes[14]!}.${bytes[15]!}`;
+  }
 
-  for (const part of parts) {
-    if (part === '') return null;
-    if (!/^\d+$/.test(part)) return null;
+  const groups: string[] = [];
+  let bestStart = -1;
+  let bestLength = 1;
+  let runStart = -1;
 
-    const n = Number.parseInt(part, 10);
-    if (!Number.isFinite(n) || n < 0 || n > 255) return null;
+  for (let i = 0; i < 8; i++) {
+    const value = (bytes[i * 2]! << 8) | bytes[i * 2 + 1]!;
+    groups.push(value.toString(16));
 
-    if (part.length > 1 && part.startsWith('0')) return null;
+    if (value !== 0) {
+      runStart = -1;
+      continue;
+    }
 
-    nums.push(n);
+    if (runStart < 0) runStart = i;
+    if (i - runStart + 1 > bestLength) {
+      bestStart = runStart;
+      bestLength = i - runStart + 1;
+    }
   }
 
-  return [nums[0]!, nums[1]!, nums[2]!, nums[3]!];
+  if (bestStart < 0) return groups.join(':');
+
+  const head = groups.slice(0, bestStart).join(':');
+  const tail = groups.slice(bestStart + bestLength).join(':');
+  return `${head}::${tail}`;
+}
+
+export function bytesToFullIpv6(bytes: Uint8Array): string {
+  const parts: string[] = [];
+  for (let i = 0; i < 16; i += 2) {
+    const hi = bytes[i]!;
+    const lo = bytes[i + 1]!;
+    const value = (hi << 8) | lo;
+    parts.push(value.toString(16).padStart(4, '0'));
+  }
+  return parts.join(':');
 }
@@ -0,0 +1,82 @@
+import type { CidrRange } from './ip-cidr';
+import type { Optional } from './types';
+
+/**
+ * one stored prefix and the value attached to it.
+ */
+export interface TrieEntry<T> {
+  readonly range: CidrRange;
+  readonly value: T;
+}
+
+interface TrieNode<T> {
+  zero: Optional<TrieNode<T>>;
+  one: Optional<TrieNode<T>>;
+  entry: Optional<TrieEntry<T>>;
+}
+
+/**
+ * a binary prefix trie over 16-byte addresses (ipv4 stored ipv4-mapped, see {@link CidrRange}).
+ *
+ * a lookup walks at most 128 nodes no matter how many ranges are stored, so large allow/deny
+ * lists and prefix tables cost the same per request as small ones.
+ */
+export interface PrefixTrie<T> {
+  readonly root: TrieNode<T>;
+}
+
+function emptyNode<T>(): TrieNode<T> {
+  return { zero: null, one: null, entry: null };
+}
+
+export function createPrefixTrie<T>(): PrefixTrie<T> {
+  return { root: emptyNode() };
+}
+
+function bitAt(bytes: Uint8Array, index: number): number {
+  return (bytes[index >> 3]! >> (7 - (index & 7))) & 1;
+}
+
+/**
+ * store a range. when the same range is inserted twice, the first value is kept.
+ */
+export function insertPrefix<T>(
+  trie: PrefixTrie<T>,
+  range: CidrRange,
+  value: T
+): void {
+  let node = trie.root;
+
+  for (let i = 0; i < range.prefix; i++) {
+    if (bitAt(range.bytes, i) === 0) {
+      node.zero ??= emptyNode();
+      node = node.zero;
+    } else {
+      node.one ??= emptyNode();
+      node = node.one;
+    }
+  }
+
+  node.entry ??= { range, value };
+}
+
+/**
+ * the most specific stored range containing the address, or null.
+ *
+ * @param bytes a 16-byte address as produced by {@link ipToBytes}
+ */
+export function longestPrefixMatch<T>(
+  trie: PrefixTrie<T>,
+  bytes: Uint8Array
+): Optional<TrieEntry<T>> {
+  let node: Optional<TrieNode<T>> = trie.root;
+  let best: Optional<TrieEntry<T>> = null;
+
+  for (let i = 0; node !== null; i++) {
+    if (node.entry !== null) best = node.entry;
+    if (i === 128) break;
+    node = bitAt(bytes, i) === 0 ? node.zero : node.one;
+  }
+
+  return best;
+}
@@ -0,0 +1,186 @@
+import {
+  cidrContains,
+  ipv4ToMapped,
+  isIpv4MappedIpv6,
+  maskBytes,
+} from './ip-cidr';
+import { parseIpv4, parseIpv6ToBytes } from './ip-parse';
+import { bytesToCompressedIpv6, bytesToFullIpv6 } from './ip-subnet';
+import type {
+  IpAddress,
+  IpFamily,
+  IpFormat,
+  IpPrefix,
+  Optional,
+} from './types';
+
+export type { IpAddress, IpFamily, IpPrefix } from './types';
+
+/**
+ * parse an ipv4 dotted quad or an ipv6 literal, with an optional zone identifier on ipv6.
+ *
+ * the same strict rules as header extraction apply: no leading zeros in ipv4 octets (they
+ * are octal in some parsers), no hex prefixes, at most one "::". ipv4-mapped ipv6 stays
+ * family 6; comparisons treat it as the ipv4 address it carries.
+ *
+ * @param input an ip literal such as "203.0.113.7", "2001:db8::1" or "fe80::1%eth0"
+ * @returns the parsed address, or null if the input is not an ip literal
+ *
+ * @see https://datatracker.ietf.org/doc/html/rfc4291#section-2.2
+ * @see https://datatracker.ietf.org/doc/html/rfc4007#section-11
+ */
+export function parseIp(input: string): Optional<IpAddress> {
+  const trimmed = input.trim();
+
+  if (!trimmed.includes(':')) {
+    const v4 = parseIpv4(trimmed);
+    if (v4 === null) return null;
+    return { family: 4, bytes: Uint8Array.from(v4), zone: null };
+  }
+
+  const zoneCut = trimmed.indexOf('%');
+  const zone = zoneCut >= 0 ? trimmed.slice(zoneCut + 1) : null;
+  if (zone === '') return null;
+
+  const raw = zoneCut >= 0 ? trimmed.slice(0, zoneCut) : trimmed;
+  const bytes = parseIpv6ToBytes(raw.toLowerCase());
+  if (bytes === null) return null;
+
+  return { family: 6, bytes, zone };
+}
+
+/**
+ * the family of an ip literal, or null if the input is not one.
+ */
+export function ipFamily(input: string): Optional<IpFamily> {
+  return parseIp(input)?.family ?? null;
+}
+
+/**
+ * write an address as text. ipv4 is always a dotted quad. ipv6 is rfc 5952 canonical text
+ * by default, or eight zero-padded groups with "full". a zone identifier is appended as
+ * "%zone".
+ *
+ * @see https://datatracker.ietf.org/doc/html/rfc5952#section-4
+ */
+export function formatIp(
+  address: IpAddress,
+  format: Exclude<IpFormat, 'cidr'> = 'compressed'
+): string {
+  if (address.family === 4) {
+    const b = address.bytes;
+    return `${b[0]!}.${b[1]!}.${b[2]!}.${b[3]!}`;
+  }
+
+  const text =
+    format === 'full'
+      ? bytesToFullIpv6(address.bytes)
+      : bytesToCompressedIpv6(address.bytes);
+
+  return address.zone === null ? text : `${text}%${address.zone}`;
+}
+
+/**
+ * clear every bit past the first `length` bits. returns a new address, the input is not
+ * modified.
+ *
+ * @throws {RangeError} if `length` is not an integer in 0..32 for ipv4 or 0..128 for ipv6
+ */
+export function maskIp(address: IpAddress, length: number): IpAddress {
+  const max = maxLength(address.family);
+
+  if (!Number.isInteger(length) || length < 0 || length > max) {
+    throw new RangeError(`prefix length must be an integer in range 0..${max}`);
+  }
+
+  const bytes = address.bytes.slice();
+  maskBytes(bytes, length);
+  return { ...address, bytes };
+}
+
+/**
+ * parse "address/length" or a bare address, which becomes a single-host prefix. host bits
+ * past the prefix are cleared.
+ *
+ * @returns the prefix, or null if the address or length is invalid
+ */
+export function parseIpPrefix(input: string): Optional<IpPrefix> {
+  const trimmed = input.trim();
+  const slash = trimmed.indexOf('/');
+
+  const address = parseIp(slash >= 0 ? trimmed.slice(0, slash) : trimmed);
+  if (address === null) return null;
+
+  const max = maxLength(address.family);
+  if (slash < 0) return { address, length: max };
+
+  const lengthStr = trimmed.slice(slash + 1);
+  if (!/^\d{1,3}$/.test(lengthStr)) return null;
+
+  const length = Number.parseInt(lengthStr, 10);
+  if (length > max) return null;
+
+  return { address: maskIp(address, length), length };
+}
+
+/**
+ * write a prefix as "address/length", with the address in rfc 5952 form.
+ */
+export function formatIpPrefix(prefix: IpPrefix): string {
+  return `${formatIp(prefix.address)}/${prefix.length}`;
+}
+
+/**
+ * whether `address` is inside `prefix`. an ipv4 prefix also matches ipv4-mapped ipv6
+ * addresses, the same way `trustedProxies` does. zone identifiers are ignored.
+ */
+export function prefixContains(prefix: IpPrefix, address: IpAddress): boolean {
+  const network = toMapped(prefix.address);
+  const bytes = toMapped(address);
+  const length =
+    prefix.address.family === 4 ? prefix.length + 96 : prefix.length;
+
+  return cidrContains({ bytes: network, prefix: length }, bytes);
+}
+
+/**
+ * order two addresses: ipv4 before ipv6, then by address bits. ipv4-mapped ipv6 sorts and
+ * compares as its ipv4 address. zone identifiers are ignored.
+ *
+ * @returns a negative number, zero or a positive number, usable with Array.prototype.sort
+ */
+export function compareIp(a: IpAddress, b: IpAddress): number {
+  const left = unmap(a);
+  const right = unmap(b);
+
+  if (left.length !== right.length) return left.length - right.length;
+
+  for (let i = 0; i < left.length; i++) {
+    if (left[i]! !== right[i]!) return left[i]! - right[i]!;
+  }
+
+  return 0;
+}
+
+/**
+ * whether two addresses have the same bits, so "::ffff:192.0.2.1" equals "192.0.2.1" and
+ * differently compressed ipv6 forms are equal. zone identifiers are ignored.
+ */
+export function ipEquals(a: IpAddress, b: IpAddress): boolean {
+  return compareIp(a, b) === 0;
+}
+
+function maxLength(family: IpFamily): number {
+  return family === 4 ? 32 : 128;
+}
+
+function unmap(address: IpAddress): Uint8Array {
+  if (address.family === 6 && isIpv4MappedIpv6(address.bytes)) {
+    return address.bytes.subarray(12);
+  }
+  return address.bytes;
+}
+
+function toMapped(address: IpAddress): Uint8Array {
+  return address.family === 6 ? address.bytes : ipv4ToMapped(address.bytes);
+}
@@ -0,0 +1,448 @@
+import { ipToBytes } from './ip-cidr';
+import { isIpv4MappedIpv6 } from './ip-cidr';
+import type {
+  IpNetworkInfo,
+  IpNetworkLookup,
+  MmdbMetadata,
+  MmdbReader,
+  MmdbValue,
+  Optional,
+} from './types';
+
+// "\xab\xcd\xefMaxMind.com"
+const METADATA_MARKER = [
+  0xab, 0xcd, 0xef, 0x4d, 0x61, 0x78, 0x4d, 0x69, 0x6e, 0x64, 0x2e, 0x63, 0x6f,
+  0x6d,
+] as const;
+
+const METADATA_MAX_SIZE = 128 * 1024;
+const DATA_SECTION_SEPARATOR_SIZE = 16;
+const MAX_DECODE_DEPTH = 64;
+
+const textDecoder = new TextDecoder();
+
+const DataType = {
+  Extended: 0,
+  Pointer: 1,
+  Utf8String: 2,
+  Double: 3,
+  Bytes: 4,
+  Uint16: 5,
+  Uint32: 6,
+  Map: 7,
+  Int32: 8,
+  Uint64: 9,
+  Uint128: 10,
+  Array: 11,
+  DataCacheContainer: 12,
+  EndMarker: 13,
+  Boolean: 14,
+  Float: 15,
+} as const;
+
+/**
+ * Opens a MaxMind DB (MMDB) file, such as GeoLite2-ASN or GeoLite2-Country,
+ * from bytes the caller has already loaded. fpyx performs no I/O: read the
+ * file with whatever your runtime offers and pass the bytes in.
+ *
+ * The reader is pure TypeScript and runs anywhere fpyx runs. Lookups walk the
+ * binary search tree and decode only the record they land on.
+ *
+ * @param buffer - The complete contents of an `.mmdb` file.
+ * @returns A reader exposing the file's metadata and a `lookup` function.
+ *
+ * @throws {TypeError} If the buffer is not a valid MMDB file of a supported
+ *   version, or if a record is corrupt when it is decoded.
+ *
+ * @see https://maxmind.github.io/MaxMind-DB/
+ */
+export function createMmdbReader(buffer: Uint8Array): MmdbReader {
+  const metadataStart = findMetadataStart(buffer);
+  const metadataValue = decodeValue(buffer, metadataStart, metadataStart, 0)[0];
+  const metadata = readMetadata(metadataValue);
+
+  const nodeBytes = metadata.recordSize / 4;
+  const treeSize = nodeBytes * metadata.nodeCount;
+  const dataStart = treeSize + DATA_SECTION_SEPARATOR_SIZE;
+
+  if (dataStart > metadataStart - METADATA_MARKER.length) {
+    throw invalid('search tree overlaps the metadata');
+  }
+
+  const readRecord = recordReader(buffer, metadata.recordSize, nodeBytes);
+
+  let ipv4Start = 0;
+  if (metadata.ipVersion === 6) {
+    for (let i = 0; i < 96 && ipv4Start < metadata.nodeCount; i++) {
+      ipv4Start = readRecord(ipv4Start, 0);
+    }
+  }
+
+  function resolve(record: number): MmdbValue {
+    const offset = dataStart + (record - metadata.nodeCount - 16);
+    if (offset < dataStart || offset >= metadataStart) {
+      throw invalid('record points outside the data section');
+    }
+    return decodeValue(buffer, offset, dataStart, 0)[0];
+  }
+
+  function lookup(ip: string): Optional<MmdbValue> {
+    const bytes = ipToBytes(ip);
+    if (bytes === null) return null;
+
+    const isV4 = isIpv4MappedIpv6(bytes);
+    if (!isV4 && metadata.ipVersion === 4) return null;
+
+    let node = isV4 ? ipv4Start : 0;
+    const firstBit = isV4 ? 96 : 0;
+
+    for (let i = firstBit; i < 128 && node < metadata.nodeCount; i++) {
+      const bit = (bytes[i >> 3]! >> (7 - (i & 7))) & 1;
+      node = readRecord(node, bit);
+    }
+
+    if (node === metadata.nodeCount) return null;
+    if (node < metadata.nodeCount) throw invalid('search tree is too deep');
+    return resolve(node);
+  }
+
+  return { metadata, lookup };
+}
+
+/**
+ * Builds an {@link IpNetworkLookup} from one or more MMDB readers, typically
+ * a GeoLite2-ASN and a GeoLite2-Country (or City) database. The first reader
+ * that knows a field wins.
+ *
+ * ASN is read from `autonomous_system_number`. Country is read from
+ * `country.iso_code`, falling back to `registered_country.iso_code`.
+ */
+export function createMmdbLookup(...readers: MmdbReader[]): IpNetworkLookup {
+  return (ip) => {
+    let asn: Optional<number> = null;
+    let country: Optional<string> = null;
+
+    for (const reader of readers) {
+      if (asn !== null && country !== null) break;
+
+      const record = reader.lookup(ip);
+      if (!isRecord(record)) continue;
+
+      asn ??= readAsn(record);
+      country ??= readCountry(record);
+    }
+
+    return { asn, country } satisfies IpNetworkInfo;
+  };
+}
+
+function readAsn(
+  record: Readonly<Record<string, MmdbValue>>
+): Optional<number> {
+  const asn = record.autonomous_system_number;
+  return typeof asn === 'number' && Number.isInteger(asn) ? asn : null;
+}
+
+function readCountry(
+  record: Readonly<Record<string, MmdbValue>>
+): Optional<string> {
+  for (const key of ['country', 'registered_country']) {
+    const entry = record[key];
+    if (!isRecord(entry)) continue;
+    const code = entry.iso_code;
+    if (typeof code === 'string' && code !== '') return code;
+  }
+  return null;
+}
+
+function isRecord(
+  value: Optional<MmdbValue> | undefined
+): value is Readonly<Record<string, MmdbValue>> {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    !Array.isArray(value) &&
+    !(value instanceof Uint8Array)
+  );
+}
+
+function invalid(reason: string): TypeError {
+  return new TypeError(`invalid mmdb: ${reason}`);
+}
+
+/**
+ * the metadata section follows the last occurrence of the marker, which sits within the
+ * final 128 KiB of the file.
+ */
+function findMetadataStart(buffer: Uint8Array): number {
+  const lowest = Math.max(0, buffer.length - METADATA_MAX_SIZE);
+
+  for (let i = buffer.length - METADATA_MARKER.length; i >= lowest; i--) {
+    let match = true;
+    for (let j = 0; j < METADATA_MARKER.length; j++) {
+      if (buffer[i + j]! !== METADATA_MARKER[j]!) {
+        match = false;
+        break;
+      }
+    }
+    if (match) return i + METADATA_MARKER.length;
+  }
+
+  throw invalid('metadata marker not found');
+}
+
+function readMetadata(value: MmdbValue): MmdbMetadata {
+  if (!isRecord(value)) throw invalid('metadata is not a map');
+
+  const nodeCount = value.node_count;
+  const recordSize = value.record_size;
+  const ipVersion = value.ip_version;
+  const major = value.binary_format_major_version;
+
+  if (major !== 2) throw invalid('unsupported binary format version');
+  if (typeof nodeCount !== 'number' || !Number.isInteger(nodeCount)) {
+    throw invalid('missing node_count');
+  }
+  if (recordSize !== 24 && recordSize !== 28 && recordSize !== 32) {
+    throw invalid('unsupported record_size');
+  }
+  if (ipVersion !== 4 && ipVersion !== 6) {
+    throw invalid('unsupported ip_version');
+  }
+
+  const description: Record<string, string> = {};
+  if (isRecord(value.description)) {
+    for (const [lang, text] of Object.entries(value.description)) {
+      if (typeof text === 'string') description[lang] = text;
+    }
+  }
+
+  const languages = Array.isArray(value.languages)
+    ? value.languages.filter((l): l is string => typeof l === 'string')
+    : [];
+
+  const buildEpoch = value.build_epoch;
+  const minor = value.binary_format_minor_version;
+
+  return {
+    nodeCount,
+    recordSize,
+    ipVersion,
+    databaseType:
+      typeof value.database_type === 'string' ? value.database_type : '',
+    languages,
+    description,
+    buildEpoch:
+      typeof buildEpoch === 'bigint'
+        ? Number(buildEpoch)
+        : typeof buildEpoch === 'number'
+          ? buildEpoch
+          : 0,
+    binaryFormatMajorVersion: major,
+    binaryFormatMinorVersion: typeof minor === 'number' ? minor : 0,
+  };
+}
+
+/**
+ * each node holds a left (bit 0) and right (bit 1) record. 28-bit records share the middle
+ * byte: its high nibble extends the left record and its low nibble the right one.
+ */
+function recordReader(
+  buffer: Uint8Array,
+  recordSize: 24 | 28 | 32,
+  nodeBytes: number
+): (node: number, bit: number) => number {
+  return (node, bit) => {
+    const base = node * nodeBytes;
+    if (base + nodeBytes > buffer.length) throw invalid('node out of range');
+
+    if (recordSize === 24) {
+      const o = base + bit * 3;
+      return (buffer[o]! << 16) | (buffer[o + 1]! << 8) | buffer[o + 2]!;
+    }
+
+    if (recordSize === 28) {
+      const middle = buffer[base + 3]!;
+      if (bit === 0) {
+        return (
+          ((middle >> 4) & 0x0f) * 0x1000000 +
+          ((buffer[base]! << 16) | (buffer[base + 1]! << 8) | buffer[base + 2]!)
+        );
+      }
+      return (
+        (middle & 0x0f) * 0x1000000 +
+        ((buffer[base + 4]! << 16) |
+          (buffer[base + 5]! << 8) |
+          buffer[base + 6]!)
+      );
+    }
+
+    return readUint(buffer, base + bit * 4, 4);
+  };
+}
+
+function readUint(buffer: Uint8Array, offset: number, size: number): number {
+  let value = 0;
+  for (let i = 0; i < size; i++) {
+    value = value * 256 + buffer[offset + i]!;
+  }
+  return value;
+}
+
+function readBigUint(buffer: Uint8Array, offset: number, size: number): bigint {
+  let value = 0n;
+  for (let i = 0; i < size; i++) {
+    value = (value << 8n) | BigInt(buffer[offset + i]!);
+  }
+  return value;
+}
+
+/**
+ * decodes one value of the data section format and returns it with the offset just past it.
+ * pointers are resolved relative to `base`, which is the data section start (or the
+ * metadata start while reading metadata).
+ */
+function decodeValue(
+  buffer: Uint8Array,
+  offset: number,
+  base: number,
+  depth: number
+): [MmdbValue, number] {
+  if (depth > MAX_DECODE_DEPTH) throw invalid('data nested too deeply');
+  if (offset >= buffer.length) throw invalid('data offset out of range');
+
+  const ctrl = buffer[offset]!;
+  let cursor = offset + 1;
+  let type = ctrl >> 5;
+
+  if (type === DataType.Pointer) {
+    const ss = (ctrl >> 3) & 0x3;
+    const vvv = ctrl & 0x7;
+    let pointer: number;
+
+    if (ss === 0) {
+      pointer = (vvv << 8) | byteAt(buffer, cursor);
+    } else if (ss === 1) {
+      pointer = ((vvv << 16) | readUintChecked(buffer, cursor, 2)) + 2048;
+    } else if (ss === 2) {
+      pointer = vvv * 0x1000000 + readUintChecked(buffer, cursor, 3) + 526336;
+    } else {
+      pointer = readUintChecked(buffer, cursor, 4);
+    }
+    cursor += ss + 1;
+
+    const target = base + pointer;
+    if ((buffer[target] ?? 0) >> 5 === DataType.Pointer) {
+      throw invalid('pointer to a pointer');
+    }
+    return [decodeValue(buffer, target, base, depth + 1)[0], cursor];
+  }
+
+  if (type === DataType.Extended) {
+    type = 7 + byteAt(buffer, cursor);
+    cursor += 1;
+  }
+
+  let size = ctrl & 0x1f;
+  if (size === 29) {
+    size = 29 + byteAt(buffer, cursor);
+    cursor += 1;
+  } else if (size === 30) {
+    size = 285 + readUintChecked(buffer, cursor, 2);
+    cursor += 2;
+  } else if (size === 31) {
+    size = 65821 + readUintChecked(buffer, cursor, 3);
+    cursor += 3;
+  }
+
+  switch (type) {
+    case DataType.Map: {
+      const out: Record<string, MmdbValue> = {};
+      for (let i = 0; i < size; i++) {
+        const [key, afterKey] = decodeValue(buffer, cursor, base, depth + 1);
+        if (typeof key !== 'string') throw invalid('map key is not a string');
+        const [value, afterValue] = decodeValue(
+          buffer,
+          afterKey,
+          base,
+          depth + 1
+        );
+        // a "__proto__" key would replace the prototype on plain assignment.
+        Object.defineProperty(out, key, {
+          value,
+          enumerable: true,
+          writable: true,
+          configurable: true,
+        });
+        cursor = afterValue;
+      }
+      return [out, cursor];
+    }
+    case DataType.Array: {
+      const out: MmdbValue[] = [];
+      for (let i = 0; i < size; i++) {
+        const [value, after] = decodeValue(buffer, cursor, base, depth + 1);
+        out.push(value);
+        cursor = after;
+      }
+      return [out, cursor];
+    }
+    case DataType.Boolean:
+      return [size !== 0, cursor];
+    case DataType.DataCacheContainer:
+    case DataType.EndMarker:
+      throw invalid(`unexpected data type ${type}`);
+  }
+
+  if (cursor + size > buffer.length) throw invalid('data runs past the end');
+  const end = cursor + size;
+
+  switch (type) {
+    case DataType.Utf8String:
+      return [textDecoder.decode(buffer.subarray(cursor, end)), end];
+    case DataType.Bytes:
+      return [buffer.slice(cursor, end), end];
+    case DataType.Double: {
+      if (size !== 8) throw invalid('double must be 8 bytes');
+      const view = new DataView(buffer.buffer, buffer.byteOffset + cursor, 8);
+      return [view.getFloat64(0, false), end];
+    }
+    case DataType.Float: {
+      if (size !== 4) throw invalid('float must be 4 bytes');
+      const view = new DataView(buffer.buffer, buffer.byteOffset + cursor, 4);
+      return [view.getFloat32(0, false), end];
+    }
+    case DataType.Uint16:
+    case DataType.Uint32:
+      return [readUint(buffer, cursor, size), end];
+    case DataType.Int32: {
+      const unsigned = readUint(buffer, cursor, size);
+      return [size === 4 ? unsigned | 0 : unsigned, end];
+    }
+    case DataType.Uint64:
+    case DataType.Uint128: {
+      const value = readBigUint(buffer, cursor, size);
+      return [
+        value <= BigInt(Number.MAX_SAFE_INTEGER) ? Number(value) : value,
+        end,
+      ];
+    }
+  }
+
+  throw invalid(`unknown data type ${type}`);
+}
+
+function byteAt(buffer: Uint8Array, offset: number): number {
+  const value = buffer[offset];
+  if (value === undefined) throw invalid('data runs past the end');
+  return value;
+}
+
+function readUintChecked(
+  buffer: Uint8Array,
+  offset: number,
+  size: number
+): number {
+  if (offset + size > buffer.length) throw invalid('data runs past the end');
+  return readUint(buffer, offset, size);
+}
@@ -0,0 +1,293 @@
+import { parseIpv4, parseIpv6ToBytes } from './ip-parse';
+import type {
+  Optional,
+  ProxyProtocolHeader,
+  ProxyProtocolTlv,
+  ProxyProtocolTransport,
+} from './types';
+
+const V2_SIGNATURE = [
+  0x0d, 0x0a, 0x0d, 0x0a, 0x00, 0x0d, 0x0a, 0x51, 0x55, 0x49, 0x54, 0x0a,
+] as const;
+
+const V1_PREFIX = 'PROXY ';
+const V1_MAX_LENGTH = 107;
+const V2_HEADER_LENGTH = 16;
+
+const PP2_TYPE_AUTHORITY = 0x02;
+const PP2_TYPE_AWS = 0xea;
+const PP2_SUBTYPE_AWS_VPCE_ID = 0x01;
+
+const textDecoder = new TextDecoder();
+
+/**
+ * Parses a PROXY protocol header (v1 text or v2 binary) from the start of a
+ * connection's first bytes.
+ *
+ * Load balancers such as HAProxy and AWS NLB prepend this header to raw TCP
+ * connections to pass on the original client address. Pass the result to
+ * {@link fingerprint} as `proxyProtocol` on the source to key raw-TCP traffic
+ * the same way as HTTP traffic.
+ *
+ * Only accept the header on listeners that sit behind a load balancer you
+ * control. Anyone who can open a TCP connection to the listener can send one.
+ *
+ * For `LOCAL` connections (load balancer health checks) and `UNKNOWN` /
+ * `UNSPEC` / unix-socket families, the addresses are `null`.
+ *
+ * @param bytes - The first bytes read from the connection. Extra bytes after
+ *   the header are ignored; `length` says where the payload starts.
+ * @returns The parsed header, or `null` if `bytes` does not start with a
+ *   complete, well-formed header.
+ *
+ * @see https://www.haproxy.org/download/2.9/doc/proxy-protocol.txt
+ * @see https://docs.aws.amazon.com/elasticloadbalancing/latest/network/edit-target-group-attributes.html#proxy-protocol
+ */
+export function parseProxyProtocol(
+  bytes: Uint8Array
+): Optional<ProxyProtocolHeader> {
+  if (startsWithV2Signature(bytes)) return parseV2(bytes);
+  return parseV1(bytes);
+}
+
+function startsWithV2Signature(bytes: Uint8Array): boolean {
+  if (bytes.length < V2_SIGNATURE.length) return false;
+  for (let i = 0; i < V2_SIGNATURE.length; i++) {
+    if (bytes[i]! !== V2_SIGNATURE[i]!) return false;
+  }
+  return true;
+}
+
+/**
+ * "PROXY TCP4 <src> <dst> <sport> <dport>\r\n", or "PROXY UNKNOWN ...\r\n".
+ */
+function parseV1(bytes: Uint8Array): Optional<ProxyProtocolHeader> {
+  const limit = Math.min(bytes.length, V1_MAX_LENGTH);
+
+  let end = -1;
+  for (let i = 0; i + 1 < limit; i++) {
+    if (bytes[i]! === 0x0d && bytes[i + 1]! === 0x0a) {
+      end = i;
+      break;
+    }
+  }
+  if (end < 0) return null;
+
+  const line = textDecoder.decode(bytes.subarray(0, end));
+  if (!line.startsWith(V1_PREFIX)) return null;
+
+  const fields = line.slice(V1_PREFIX.length).split(' ');
+  const length = end + 2;
+
+  if (fields[0] === 'UNKNOWN') {
+    return emptyHeader(1, 'proxy', 'unknown', length, []);
+  }
+
+  if (fields.length !== 5) return null;
+
+  const [proto, src, dst, sport, dport] = fields as [
+    string,
+    string,
+    string,
+    string,
+    string,
+  ];
+
+  let transport: ProxyProtocolTransport;
+  if (proto === 'TCP4') transport = 'tcp4';
+  else if (proto === 'TCP6') transport = 'tcp6';
+  else return null;
+
+  const isV4 = transport === 'tcp4';
+  if (!isTextAddress(src, isV4) || !isTextAddress(dst, isV4)) return null;
+
+  const sourcePort = parseTextPort(sport);
+  const destinationPort = parseTextPort(dport);
+  if (sourcePort === null || destinationPort === null) return null;
+
+  return {
+    version: 1,
+    command: 'proxy',
+    transport,
+    sourceAddress: src,
+    sourcePort,
+    destinationAddress: dst,
+    destinationPort,
+    tlvs: [],
+    authority: null,
+    awsVpceId: null,
+    length,
+  };
+}
+
+function isTextAddress(value: string, isV4: boolean): boolean {
+  if (isV4) return parseIpv4(value) !== null;
+  return value.includes(':') && parseIpv6ToBytes(value.toLowerCase()) !== null;
+}
+
+function parseTextPort(value: string): Optional<number> {
+  if (!/^(?:0|[1-9]\d{0,4})$/.test(value)) return null;
+  const port = Number.parseInt(value, 10);
+  return port <= 65535 ? port : null;
+}
+
+function parseV2(bytes: Uint8Array): Optional<ProxyProtocolHeader> {
+  if (bytes.length < V2_HEADER_LENGTH) return null;
+
+  const versionCommand = bytes[12]!;
+  if (versionCommand >> 4 !== 2) return null;
+
+  const commandBits = versionCommand & 0x0f;
+  if (commandBits > 1) return null;
+  const command = commandBits === 0 ? 'local' : 'proxy';
+
+  const familyByte = bytes[13]!;
+  const addressLength = (bytes[14]! << 8) | bytes[15]!;
+  const length = V2_HEADER_LENGTH + addressLength;
+  if (bytes.length < length) return null;
+
+  const body = bytes.subarray(V2_HEADER_LENGTH, length);
+  const transport = v2Transport(familyByte);
+  if (transport === null) return null;
+
+  // the spec has receivers accept local and ignore the unspec address block, so the body is
+  // skipped unread and cannot fail the header.
+  if (command === 'local' || transport === 'unknown') {
+    return emptyHeader(2, command, transport, length, []);
+  }
+
+  const blockLength = v2AddressBlockLength(transport);
+  if (body.length < blockLength) return null;
+
+  const tlvs = parseTlvs(body.subarray(blockLength));
+  if (tlvs === null) return null;
+
+  if (transport.startsWith('unix')) {
+    return emptyHeader(2, command, transport, length, tlvs);
+  }
+
+  const isV4 = transport.endsWith('4');
+  const addrSize = isV4 ? 4 : 16;
+  const view = new DataView(body.buffer, body.byteOffset, body.byteLength);
+
+  return {
+    version: 2,
+    command,
+    transport,
+    sourceAddress: formatAddress(body.subarray(0, addrSize)),
+    sourcePort: view.getUint16(addrSize * 2),
+    destinationAddress: formatAddress(body.subarray(addrSize, addrSize * 2)),
+    destinationPort: view.getUint16(addrSize * 2 + 2),
+    tlvs,
+    authority: findAuthority(tlvs),
+    awsVpceId: findAwsVpceId(tlvs),
+    length,
+  };
+}
+
+function v2Transport(familyByte: number): Optional<ProxyProtocolTransport> {
+  switch (familyByte) {
+    case 0x00:
+      return 'unknown';
+    case 0x11:
+      return 'tcp4';
+    case 0x12:
+      return 'udp4';
+    case 0x21:
+      return 'tcp6';
+    case 0x22:
+      return 'udp6';
+    case 0x31:
+      return 'unix-stream';
+    case 0x32:
+      return 'unix-dgram';
+    default:
+      return null;
+  }
+}
+
+function v2AddressBlockLength(transport: ProxyProtocolTransport): number {
+  switch (transport) {
+    case 'tcp4':
+    case 'udp4':
+      return 12;
+    case 'tcp6':
+    case 'udp6':
+      return 36;
+    case 'unix-stream':
+    case 'unix-dgram':
+      return 216;
+    default:
+      return 0;
+  }
+}
+
+/**
+ * type (1 byte), length (2 bytes, big endian), value. a tlv running past the end of the
+ * header makes the whole header invalid, as the spec requires.
+ */
+function parseTlvs(bytes: Uint8Array): Optional<readonly ProxyProtocolTlv[]> {
+  const out: ProxyProtocolTlv[] = [];
+  let offset = 0;
+
+  while (offset < bytes.length) {
+    if (offset + 3 > bytes.length) return null;
+
+    const type = bytes[offset]!;
+    const valueLength = (bytes[offset + 1]! << 8) | bytes[offset + 2]!;
+    const start = offset + 3;
+    const end = start + valueLength;
+    if (end > bytes.length) return null;
+
+    out.push({ type, value: bytes.slice(start, end) });
+    offset = end;
+  }
+
+  return out;
+}
+
+function findAuthority(tlvs: readonly ProxyProtocolTlv[]): Optional<string> {
+  const tlv = tlvs.find((t) => t.type === PP2_TYPE_AUTHORITY);
+  return tlv === undefined ? null : textDecoder.decode(tlv.value);
+}
+
+function findAwsVpceId(tlvs: readonly ProxyProtocolTlv[]): Optional<string> {
+  const tlv = tlvs.find(
+    (t) => t.type === PP2_TYPE_AWS && t.value[0] === PP2_SUBTYPE_AWS_VPCE_ID
+  );
+  return tlv === undefined ? null : textDecoder.decode(tlv.value.subarray(1));
+}
+
+function formatAddress(bytes: Uint8Array): string {
+  if (bytes.length === 4) {
+    return `${bytes[0]!}.${bytes[1]!}.${bytes[2]!}.${bytes[3]!}`;
+  }
+
+  const groups: string[] = [];
+  for (let i = 0; i < 16; i += 2) {
+    groups.push(((bytes[i]! << 8) | bytes[i + 1]!).toString(16));
+  }
+  return groups.join(':');
+}
+
+function emptyHeader(
+  version: 1 | 2,
+  command: ProxyProtocolHeader['command'],
+  transport: ProxyProtocolTransport,
+  length: number,
+  tlvs: readonly ProxyProtocolTlv[]
+): ProxyProtocolHeader {
+  return {
+    version,
+    command,
+    transport,
+    sourceAddress: null,
+    sourcePort: null,
+    destinationAddress: null,
+    destinationPort: null,
+    tlvs,
+    authority: findAuthority(tlvs),
+    awsVpceId: findAwsVpceId(tlvs),
+    length,
+  };
+}
@@ -0,0 +1,242 @@
+import type { Optional } from './types';
+
+/**
+ * an sf-token, kept apart from sf-string because the two compare differently.
+ */
+export interface SfToken {
+  readonly token: string;
+}
+
+export type SfBareItem = number | string | boolean | Uint8Array | SfToken;
+
+export type SfParameters = ReadonlyMap<string, SfBareItem>;
+
+export interface SfItem {
+  readonly value: SfBareItem;
+  readonly params: SfParameters;
+}
+
+export interface SfInnerList {
+  readonly items: readonly SfItem[];
+  readonly params: SfParameters;
+}
+
+export type SfListMember = SfItem | SfInnerList;
+
+/**
+ * a parse failure anywhere in a field fails the whole field, as rfc 8941 requires. it is
+ * thrown from deep inside the parser and caught once in parseField.
+ */
+const PARSE_FAILURE = new Error('invalid structured field');
+
+interface Cursor {
+  readonly input: string;
+  pos: number;
+}
+
+/**
+ * parse an sf-list, e.g. `"Chromium";v="124", "Not-A.Brand";v="99"`.
+ *
+ * @returns the members, or null if the value is not a valid list
+ *
+ * @see https://datatracker.ietf.org/doc/html/rfc8941#section-4.2.1
+ */
+export function parseSfList(value: string): Optional<readonly SfListMember[]> {
+  return parseField(value, (cursor) => {
+    const members: SfListMember[] = [];
+
+    while (cursor.pos < cursor.input.length) {
+      members.push(parseItemOrInnerList(cursor));
+      skipOws(cursor);
+      if (cursor.pos >= cursor.input.length) return members;
+      consume(cursor, ',');
+      skipOws(cursor);
+      if (cursor.pos >= cursor.input.length) throw PARSE_FAILURE;
+    }
+
+    return members;
+  });
+}
+
+/**
+ * parse an sf-item, e.g. `"Windows"` or `?0`.
+ *
+ * @returns the item, or null if the value is not a valid item
+ *
+ * @see https://datatracker.ietf.org/doc/html/rfc8941#section-4.2.3
+ */
+export function parseSfItem(value: string): Optional<SfItem> {
+  return parseField(value, parseItem);
+}
+
+export function isSfInnerList(member: SfListMember): member is SfInnerList {
+  return 'items' in member;
+}
+
+function parseField<T>(
+  value: string,
+  parse: (cursor: Cursor) => T
+): Optional<T> {
+  const cursor: Cursor = { input: value.replace(/^ +| +$/g, ''), pos: 0 };
+
+  try {
+    const result = parse(cursor);
+    return cursor.pos === cursor.input.length ? result : null;
+  } catch (error) {
+    if (error === PARSE_FAILURE) return null;
+    throw error;
+  }
+}
+
+function parseItemOrInnerList(cursor: Cursor): SfListMember {
+  if (peek(cursor) !== '(') return parseItem(cursor);
+
+  cursor.pos++;
+  const items: SfItem[] = [];
+
+  for (;;) {
+    skipSp(cursor);
+    if (peek(cursor) === ')') {
+      cursor.pos++;
+      return { items, params: parseParameters(cursor) };
+    }
+    items.push(parseItem(cursor));
+    const next = peek(cursor);
+    if (next !== ' ' && next !== ')') throw PARSE_FAILURE;
+  }
+}
+
+function parseItem(cursor: Cursor): SfItem {
+  const value = parseBareItem(cursor);
+  return { value, params: parseParameters(cursor) };
+}
+
+function parseParameters(cursor: Cursor): SfParameters {
+  const params = new Map<string, SfBareItem>();
+
+  while (peek(cursor) === ';') {
+    cursor.pos++;
+    skipSp(cursor);
+    const key = parseKey(cursor);
+    let value: SfBareItem = true;
+    if (peek(cursor) === '=') {
+      cursor.pos++;
+      value = parseBareItem(cursor);
+    }
+    params.set(key, value);
+  }
+
+  return params;
+}
+
+function parseKey(cursor: Cursor): string {
+  const match = /^[a-z*][a-z0-9_\-.*]*/.exec(cursor.input.slice(cursor.pos));
+  if (match === null) throw PARSE_FAILURE;
+  cursor.pos += match[0].length;
+  return match[0];
+}
+
+function parseBareItem(cursor: Cursor): SfBareItem {
+  const c = peek(cursor);
+
+  if (c === '"') return parseString(cursor);
+  if (c === ':') return parseByteSequence(cursor);
+  if (c === '?') return parseBoolean(cursor);
+  if (c === '-' || isDigit(c)) return parseNumber(cursor);
+  if (c === '*' || /^[A-Za-z]$/.test(c)) return parseToken(cursor);
+
+  throw PARSE_FAILURE;
+}
+
+function parseString(cursor: Cursor): string {
+  cursor.pos++;
+  let out = '';
+
+  while (cursor.pos < cursor.input.length) {
+    const c = cursor.input[cursor.pos++]!;
+    if (c === '"') return out;
+    if (c === '\\') {
+      const escaped = cursor.input[cursor.pos++];
+      if (escaped !== '"' && escaped !== '\\') throw PARSE_FAILURE;
+      out += escaped;
+      continue;
+    }
+    const code = c.charCodeAt(0);
+    if (code < 0x20 || code > 0x7e) throw PARSE_FAILURE;
+    out += c;
+  }
+
+  throw PARSE_FAILURE;
+}
+
+function parseToken(cursor: Cursor): SfToken {
+  const match = /^[A-Za-z*][!#$%&'*+\-.^_`|~0-9A-Za-z:/]*/.exec(
+    cursor.input.slice(cursor.pos)
+  );
+  if (match === null) throw PARSE_FAILURE;
+  cursor.pos += match[0].length;
+  return { token: match[0] };
+}
+
+function parseNumber(cursor: Cursor): number {
+  const match = /^-?(\d+)(?:\.(\d+))?/.exec(cursor.input.slice(cursor.pos));
+  if (match === null) throw PARSE_FAILURE;
+
+  const [text, integer, fraction] = match;
+  if (fraction === undefined) {
+    if (integer!.length > 15) throw PARSE_FAILURE;
+  } else if (integer!.length > 12 || fraction.length > 3) {
+    throw PARSE_FAILURE;
+  }
+
+  cursor.pos += text.length;
+  return Number(text);
+}
+
+function parseByteSequence(cursor: Cursor): Uint8Array {
+  const end = cursor.input.indexOf(':', cursor.pos + 1);
+  if (end < 0) throw PARSE_FAILURE;
+
+  const encoded = cursor.input.slice(cursor.pos + 1, end);
+  if (!/^[A-Za-z0-9+/]*={0,2}$/.test(encoded)) throw PARSE_FAILURE;
+
+  // padding may be left out, but when present it must close the last 4-char group.
+  // anything atob would reject fails here, so it never throws past parseField.
+  const data = encoded.replace(/=+$/, '');
+  if (data.length % 4 === 1) throw PARSE_FAILURE;
+  if (data.length !== encoded.length && encoded.length % 4 !== 0) {
+    throw PARSE_FAILURE;
+  }
+  cursor.pos = end + 1;
+
+  const binary = atob(data.padEnd(Math.ceil(data.length / 4) * 4, '='));
+  return Uint8Array.from(binary, (ch) => ch.charCodeAt(0));
+}
+
+function parseBoolean(cursor: Cursor): boolean {
+  const c = cursor.input[cursor.pos + 1];
+  if (c !== '0' && c !== '1') throw PARSE_FAILURE;
+  cursor.pos += 2;
+  return c === '1';
+}
+
+function peek(cursor: Cursor): string {
+  return cursor.input[cursor.pos] ?? '';
+}
+
+function consume(cursor: Cursor, c: string): void {
+  if (peek(cursor) !== c) throw PARSE_FAILURE;
+  cursor.pos++;
+}
+
+function skipSp(cursor: Cursor): void {
+  while (peek(cursor) === ' ') cursor.pos++;
+}
+
+function skipOws(cursor: Cursor): void {
+  while (peek(cursor) === ' ' || peek(cursor) === '\t') cursor.pos++;
+}
+
+function isDigit(c: string): boolean {
+  return c >= '0' && c <= '9';
+}
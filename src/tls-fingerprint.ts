@@ -0,0 +1,351 @@
+import { DEFAULT_TLS_FINGERPRINT_HEADERS } from './constants';
+import { readCf } from './edge';
+import { md5Hex, sha256Hex } from './hash';
+import type {
+  FingerprintSource,
+  Optional,
+  Possible,
+  TlsFingerprintFormat,
+} from './types';
+
+const textEncoder = new TextEncoder();
+
+const HANDSHAKE_RECORD = 0x16;
+const CLIENT_HELLO = 0x01;
+
+const EXT_SERVER_NAME = 0x0000;
+const EXT_SUPPORTED_GROUPS = 0x000a;
+const EXT_EC_POINT_FORMATS = 0x000b;
+const EXT_SIGNATURE_ALGORITHMS = 0x000d;
+const EXT_ALPN = 0x0010;
+const EXT_SUPPORTED_VERSIONS = 0x002b;
+
+interface TlsExtension {
+  readonly type: number;
+  readonly data: Uint8Array;
+}
+
+interface ClientHello {
+  readonly version: number;
+  readonly ciphers: readonly number[];
+  readonly extensions: readonly TlsExtension[];
+}
+
+/**
+ * Computes the JA3 string of a TLS ClientHello:
+ * `SSLVersion,Ciphers,Extensions,EllipticCurves,EllipticCurvePointFormats`,
+ * with GREASE values removed. Hash it with MD5 to get the 32-character JA3
+ * fingerprint edge providers report.
+ *
+ * @param clientHello - The first bytes the client sent on the connection,
+ *   either a full TLS record or the bare handshake message.
+ * @returns The JA3 string, or `null` if the bytes are not a complete
+ *   ClientHello.
+ *
+ * @see https://github.com/salesforce/ja3
+ */
+export function computeJa3(clientHello: Uint8Array): Optional<string> {
+  const hello = parseClientHello(clientHello);
+  if (hello === null) return null;
+
+  const extension = (type: number) =>
+    hello.extensions.find((ext) => ext.type === type)?.data;
+
+  const curves = readU16List(extension(EXT_SUPPORTED_GROUPS), 2);
+  const pointFormats = readU8List(extension(EXT_EC_POINT_FORMATS));
+
+  return [
+    String(hello.version),
+    hello.ciphers.filter(notGrease).join('-'),
+    hello.extensions
+      .map((ext) => ext.type)
+      .filter(notGrease)
+      .join('-'),
+    (curves ?? []).filter(notGrease).join('-'),
+    (pointFormats ?? []).join('-'),
+  ].join(',');
+}
+
+/**
+ * Computes the JA4 fingerprint of a TLS-over-TCP ClientHello, e.g.
+ * `t13d1516h2_8daaf6152771_e5627efa2ab1`: protocol, TLS version, SNI,
+ * cipher and extension counts and ALPN, followed by truncated SHA-256 hashes
+ * of the sorted cipher suites and of the sorted extensions plus signature
+ * algorithms.
+ *
+ * @param clientHello - The first bytes the client sent on the connection,
+ *   either a full TLS record or the bare handshake message.
+ * @returns The JA4 fingerprint, or `null` if the bytes are not a complete
+ *   ClientHello.
+ *
+ * @see https://github.com/FoxIO-LLC/ja4/blob/main/technical_details/JA4.md
+ */
+export function computeJa4(clientHello: Uint8Array): Optional<string> {
+  const hello = parseClientHello(clientHello);
+  if (hello === null) return null;
+
+  const extension = (type: number) =>
+    hello.extensions.find((ext) => ext.type === type)?.data;
+
+  const ciphers = hello.ciphers.filter(notGrease);
+  const extensions = hello.extensions.map((ext) => ext.type).filter(notGrease);
+
+  // tls 1.3 clients keep legacy_version at 1.2 and list the real versions in an extension
+  const versions = (
+    readU16List(extension(EXT_SUPPORTED_VERSIONS), 1) ?? []
+  ).filter(notGrease);
+  const version = versions.length === 0 ? hello.version : Math.max(...versions);
+
+  const a =
+    't' +
+    tlsVersionCode(version) +
+    (extensions.includes(EXT_SERVER_NAME) ? 'd' : 'i') +
+    twoDigits(ciphers.length) +
+    twoDigits(extensions.length) +
+    alpnCode(firstAlpn(extension(EXT_ALPN)));
+
+  const b =
+    ciphers.length === 0
+      ? '000000000000'
+      : truncatedSha256(ciphers.map(hex4).sort().join(','));
+
+  const hashed = extensions
+    .filter((type) => type !== EXT_SERVER_NAME && type !== EXT_ALPN)
+    .map(hex4)
+    .sort()
+    .join(',');
+  const signatures = (
+    readU16List(extension(EXT_SIGNATURE_ALGORITHMS), 2) ?? []
+  ).map(hex4);
+
+  const c =
+    extensions.length === 0
+      ? '000000000000'
+      : truncatedSha256(
+          signatures.length === 0 ? hashed : `${hashed}_${signatures.join(',')}`
+        );
+
+  return `${a}_${b}_${c}`;
+}
+
+/**
+ * the tls fingerprint trait, from the first source that has one: the raw clienthello on the
+ * source, cloudflare's `request.cf.botManagement`, then the configured headers. ja3 values
+ * are the md5 form; header values that do not look like the requested format are skipped.
+ */
+export function extractTlsFingerprint(
+  source: FingerprintSource,
+  format: TlsFingerprintFormat,
+  headers: Possible<readonly string[]>
+): Optional<string> {
+  if ('clientHello' in source && source.clientHello !== undefined) {
+    const computed =
+      format === 'ja4'
+        ? computeJa4(source.clientHello)
+        : computeJa3(source.clientHello);
+    if (computed !== null) {
+      return format === 'ja4' ? computed : md5Hex(textEncoder.encode(computed));
+    }
+  }
+
+  const bot = readCf(source)?.['botManagement'];
+  if (typeof bot === 'object' && bot !== null) {
+    const { ja4, ja3Hash } = bot as Record<string, unknown>;
+    const value = normalizeTlsFingerprint(
+      format === 'ja4' ? ja4 : ja3Hash,
+      format
+    );
+    if (value !== null) return value;
+  }
+
+  for (const name of headers ?? DEFAULT_TLS_FINGERPRINT_HEADERS[format]) {
+    const value = normalizeTlsFingerprint(source.headers.get(name), format);
+    if (value !== null) return value;
+  }
+
+  return null;
+}
+
+const JA4_PATTERN =
+  /^[tqd](?:1[0-3]|s[23]|d[1-3]|00)[di]\d{4}[0-9a-z]{2}_[0-9a-f]{12}_[0-9a-f]{12}$/;
+const JA3_HASH_PATTERN = /^[0-9a-f]{32}$/;
+
+/**
+ * a reported ja4 fingerprint or ja3 md5 hash, lowercased, or null when it is not one.
+ */
+export function normalizeTlsFingerprint(
+  value: unknown,
+  format: TlsFingerprintFormat
+): Optional<string> {
+  if (typeof value !== 'string') return null;
+  const normalized = value.trim().toLowerCase();
+  const pattern = format === 'ja4' ? JA4_PATTERN : JA3_HASH_PATTERN;
+  return pattern.test(normalized) ? normalized : null;
+}
+
+/**
+ * parse a clienthello from a tls record or a bare handshake message. only the first record
+ * is read, so a hello fragmented across records is rejected.
+ *
+ * @see https://datatracker.ietf.org/doc/html/rfc8446#section-4.1.2
+ */
+function parseClientHello(bytes: Uint8Array): Optional<ClientHello> {
+  if (bytes[0] === HANDSHAKE_RECORD) {
+    if (bytes.length < 5) return null;
+    const recordLength = (bytes[3]! << 8) | bytes[4]!;
+    if (bytes.length < 5 + recordLength) return null;
+    bytes = bytes.subarray(5, 5 + recordLength);
+  }
+
+  if (bytes[0] !== CLIENT_HELLO || bytes.length < 4) return null;
+  const length = (bytes[1]! << 16) | (bytes[2]! << 8) | bytes[3]!;
+  if (bytes.length < 4 + length) return null;
+  const body = bytes.subarray(4, 4 + length);
+
+  // legacy_version (2) + random (32), then the session id
+  let offset = 34;
+  if (body.length < offset + 1) return null;
+  const version = (body[0]! << 8) | body[1]!;
+
+  offset += 1 + body[offset]!;
+  if (body.length < offset + 2) return null;
+
+  const cipherLength = (body[offset]! << 8) | body[offset + 1]!;
+  offset += 2;
+  if (cipherLength % 2 !== 0 || body.length < offset + cipherLength) {
+    return null;
+  }
+  const ciphers: number[] = [];
+  for (let i = 0; i < cipherLength; i += 2) {
+    ciphers.push((body[offset + i]! << 8) | body[offset + i + 1]!);
+  }
+  offset += cipherLength;
+
+  if (body.length < offset + 1) return null;
+  offset += 1 + body[offset]!;
+
+  const extensions: TlsExtension[] = [];
+  if (offset === body.length) return { version, ciphers, extensions };
+
+  if (body.length < offset + 2) return null;
+  const extensionsEnd = offset + 2 + ((body[offset]! << 8) | body[offset + 1]!);
+  if (extensionsEnd > body.length) return null;
+  offset += 2;
+
+  while (offset < extensionsEnd) {
+    if (offset + 4 > extensionsEnd) return null;
+    const type = (body[offset]! << 8) | body[offset + 1]!;
+    const size = (body[offset + 2]! << 8) | body[offset + 3]!;
+    offset += 4;
+    if (offset + size > extensionsEnd) return null;
+    extensions.push({ type, data: body.subarray(offset, offset + size) });
+    offset += size;
+  }
+
+  return { version, ciphers, extensions };
+}
+
+/**
+ * grease values (rfc 8701) are 0x?a?a with both bytes equal. clients insert them at random
+ * to keep servers tolerant, so they are left out of every fingerprint.
+ *
+ * @see https://datatracker.ietf.org/doc/html/rfc8701
+ */
+function notGrease(value: number): boolean {
+  return !((value & 0x0f0f) === 0x0a0a && value >> 8 === (value & 0xff));
+}
+
+/**
+ * a u16 list behind a length prefix of `prefix` bytes, or null when absent or malformed.
+ */
+function readU16List(
+  data: Possible<Uint8Array>,
+  prefix: 1 | 2
+): Optional<number[]> {
+  if (data === undefined || data.length < prefix) return null;
+  const length = prefix === 1 ? data[0]! : (data[0]! << 8) | data[1]!;
+  if (length % 2 !== 0 || data.length < prefix + length) return null;
+
+  const out: number[] = [];
+  for (let i = prefix; i < prefix + length; i += 2) {
+    out.push((data[i]! << 8) | data[i + 1]!);
+  }
+  return out;
+}
+
+function readU8List(data: Possible<Uint8Array>): Optional<number[]> {
+  if (data === undefined || data.length < 1) return null;
+  const length = data[0]!;
+  if (data.length < 1 + length) return null;
+  return Array.from(data.subarray(1, 1 + length));
+}
+
+function firstAlpn(data: Possible<Uint8Array>): Optional<Uint8Array> {
+  if (data === undefined || data.length < 3) return null;
+  const length = data[2]!;
+  if (length === 0 || data.length < 3 + length) return null;
+  return data.subarray(3, 3 + length);
+}
+
+/**
+ * the first and last character of the first alpn value, or of its hex form when either is
+ * not an ascii letter or digit. "00" without alpn.
+ */
+function alpnCode(alpn: Optional<Uint8Array>): string {
+  if (alpn === null) return '00';
+
+  const first = alpn[0]!;
+  const last = alpn[alpn.length - 1]!;
+
+  if (isAlphanumeric(first) && isAlphanumeric(last)) {
+    return String.fromCharCode(first, last);
+  }
+
+  const hex = Array.from(alpn, (b) => b.toString(16).padStart(2, '0')).join('');
+  return hex[0]! + hex[hex.length - 1]!;
+}
+
+function isAlphanumeric(byte: number): boolean {
+  return (
+    (byte >= 0x30 && byte <= 0x39) ||
+    (byte >= 0x41 && byte <= 0x5a) ||
+    (byte >= 0x61 && byte <= 0x7a)
+  );
+}
+
+function tlsVersionCode(version: number): string {
+  switch (version) {
+    case 0x0304:
+      return '13';
+    case 0x0303:
+      return '12';
+    case 0x0302:
+      return '11';
+    case 0x0301:
+      return '10';
+    case 0x0300:
+      return 's3';
+    case 0x0002:
+      return 's2';
+    case 0xfeff:
+      return 'd1';
+    case 0xfefd:
+      return 'd2';
+    case 0xfefc:
+      return 'd3';
+    default:
+      return '00';
+  }
+}
+
+function twoDigits(count: number): string {
+  return String(Math.min(count, 99)).padStart(2, '0');
+}
+
+function hex4(value: number): string {
+  return value.toString(16).padStart(4, '0');
+}
+
+function truncatedSha256(text: string): string {
+  return sha256Hex(textEncoder.encode(text)).slice(0, 12);
+}
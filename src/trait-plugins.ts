@@ -0,0 +1,114 @@
+import { EDGE_TRAITS } from './edge';
+import type {
+  FingerprintSource,
+  Optional,
+  TraitPlugin,
+  TraitPluginRole,
+} from './types';
+
+/**
+ * segment names used by buildParts. a plugin with one of these names could forge or shadow a
+ * built-in segment, so they are rejected.
+ */
+const RESERVED_NAMES: ReadonlySet<string> = new Set([
+  'actor',
+  'ip',
+  'level',
+  ...EDGE_TRAITS,
+  'ua',
+  'ch-ua',
+  'ch-platform',
+  'ch-mobile',
+  'lang',
+  'tls',
+  'headers',
+  'method',
+  'path',
+]);
+
+const PLUGIN_NAME = /^[a-z][a-z0-9-]*$/;
+
+export interface CompiledTraitPlugin {
+  readonly name: string;
+  readonly role: TraitPluginRole;
+  readonly plugin: TraitPlugin;
+}
+
+const compiledTraitPlugins = new WeakMap<
+  readonly TraitPlugin[],
+  readonly CompiledTraitPlugin[]
+>();
+
+/**
+ * validate plugins and sort them by name, so parts do not depend on registration order.
+ * cached per list instance.
+ *
+ * @throws {TypeError} if a name is malformed, reserved, or used twice
+ */
+export function compileTraitPlugins(
+  plugins: readonly TraitPlugin[]
+): readonly CompiledTraitPlugin[] {
+  const cached = compiledTraitPlugins.get(plugins);
+  if (cached !== undefined) return cached;
+
+  const seen = new Set<string>();
+
+  for (const { name } of plugins) {
+    if (!PLUGIN_NAME.test(name)) {
+      throw new TypeError(`invalid trait plugin name: ${name}`);
+    }
+    if (RESERVED_NAMES.has(name)) {
+      throw new TypeError(`reserved trait plugin name: ${name}`);
+    }
+    if (seen.has(name)) {
+      throw new TypeError(`duplicate trait plugin name: ${name}`);
+    }
+    seen.add(name);
+  }
+
+  const compiled = plugins
+    .map((plugin) => ({
+      name: plugin.name,
+      role: plugin.role ?? 'scope',
+      plugin,
+    }))
+    .sort((a, b) => (a.name < b.name ? -1 : a.name > b.name ? 1 : 0));
+
+  compiledTraitPlugins.set(plugins, compiled);
+  return compiled;
+}
+
+/**
+ * run every plugin against the source. values are keyed by name in sorted order.
+ */
+export function extractPluginTraits(
+  source: FingerprintSource,
+  plugins: readonly CompiledTraitPlugin[]
+): Readonly<Record<string, Optional<string>>> {
+  const out: Record<string, Optional<string>> = {};
+
+  for (const { name, plugin } of plugins) {
+    const raw = plugin.extract(source);
+    if (raw === null || raw === undefined) {
+      out[name] = null;
+      continue;
+    }
+    const value: unknown =
+      plugin.normalize === undefined
+        ? defaultNormalize(raw)
+        : plugin.normalize(raw);
+    // normalize is user code, so anything but a non-empty string counts as unknown.
+    out[name] = typeof value === 'string' && value !== '' ? value : null;
+  }
+
+  return out;
+}
+
+function defaultNormalize(value: unknown): Optional<string> {
+  if (typeof value === 'string') return value.trim() || null;
+  if (typeof value === 'number') {
+    return Number.isFinite(value) ? String(value) : null;
+  }
+  if (typeof value === 'boolean') return String(value);
+  return null;
+}
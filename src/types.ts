@@ -1,5 +1,7 @@
 import { SizedTuple } from 'typyx';
 
+import type { IP_PRESETS } from './constants';
+
 export type Optional<T> = T | null;
 export type Possible<T> = T | undefined;
 
@@ -13,6 +15,43 @@ export interface FingerprintResult {
   readonly hash: string;
   readonly parts: readonly string[];
   readonly traits: FingerprintTraits;
+  /**
+   * How the client IP was chosen. Only present when `explain` is `true` and
+   * identity is anchored on the IP rather than `actorId`.
+   */
+  readonly explain?: IpExplanation;
+  /**
+   * Spoofing signals across the configured IP headers. Only present when
+   * `detectSpoofing` is `true`; empty when nothing looks suspicious.
+   */
+  readonly signals?: readonly IpSpoofingSignal[];
+  /**
+   * Whether the client IP is exempt from limiting, denied outright, or
+   * normal, according to `allowList` and `denyList`. Only present when either
+   * list is set.
+   */
+  readonly verdict?: IpVerdict;
+  /**
+   * The `allowList` or `denyList` entry, as written, that produced `verdict`.
+   * `null` for a `normal` verdict. Only present alongside `verdict`.
+   */
+  readonly matchedRange?: Optional<string>;
+}
+
+/**
+ * The allow/deny decision for a client IP: `exempt` (matched `allowList`),
+ * `deny` (matched `denyList`) or `normal` (matched neither).
+ */
+export type IpVerdict = 'exempt' | 'deny' | 'normal';
+
+/**
+ * Prefix lengths per address family for {@link fingerprintHierarchy}, in the
+ * order results should be returned, e.g. `{ ipv6: [128, 64, 48], ipv4: [32,
+ * 24] }`.
+ */
+export interface FingerprintLevels {
+  readonly ipv6?: readonly number[];
+  readonly ipv4?: readonly number[];
 }
 
 /**
@@ -21,22 +60,486 @@ export interface FingerprintResult {
  * **Invariant:** `actorId` and `ip` are mutually exclusive identity anchors.
  * When `actorId` is non-null it is the sole anchor and `ip` is `null`.
  * When `actorId` is `null`, `ip` is the anchor (and may itself be `null` if
- * no valid IP could be extracted from the request headers).
+ * no valid IP could be extracted from the request headers or peer address).
  */
 export interface FingerprintTraits {
   readonly actorId: Optional<string>;
   readonly ip: Optional<string>;
+  /**
+   * Where `ip` came from: a forwarding `header`, the socket `peer` address
+   * supplied as `remoteAddress`, or a `proxy-protocol` header. `null` when
+   * `ip` is `null`.
+   */
+  readonly ipSource: Optional<IpSource>;
+  /**
+   * The special-purpose class of the client address before subnet bucketing,
+   * see {@link classifyIp}. `null` when `ip` is `null`.
+   */
+  readonly ipClass: Optional<IpClass>;
+  /**
+   * The autonomous system number of the client address, from the edge when
+   * enabled through `edgeTraits`, otherwise from `networkLookup`. `null` when
+   * neither is configured or the address is unknown.
+   */
+  readonly asn: Optional<number>;
+  /**
+   * The ISO 3166-1 alpha-2 country code of the client address, from the edge
+   * when enabled through `edgeTraits`, otherwise from `networkLookup`. `null`
+   * when neither is configured or the address is unknown.
+   */
+  readonly country: Optional<string>;
+  /**
+   * The IATA code of the edge location, when `colo` is enabled through
+   * `edgeTraits`.
+   */
+  readonly colo: Optional<string>;
+  /**
+   * Cloudflare Bot Management's verdict, when `bot` is enabled through
+   * `edgeTraits`.
+   */
+  readonly bot: Optional<EdgeBotClass>;
+  /**
+   * The User-Agent when `includeUserAgent` is `true`: a coarse
+   * `<family>/<major> <os>` token such as `chrome/124 windows`, or the
+   * trimmed header with `userAgentFormat: 'raw'`. `null` when not included or
+   * when the header is missing or blank.
+   */
+  readonly userAgent: Optional<string>;
+  /**
+   * The `Sec-CH-UA` brands when `includeClientHints` is `true`, as
+   * lowercased `<brand>/<major>` entries sorted by brand and joined with `,`,
+   * e.g. `chromium/124,google chrome/124`. Chromium's GREASE brand is
+   * dropped. `null` when not included or when no brand could be read.
+   */
+  readonly clientHintBrands: Optional<string>;
+  /**
+   * The `Sec-CH-UA-Platform` hint when `includeClientHints` is `true`, with
+   * the same OS names as `userAgent`: `windows`, `macos`, `ios`, `android`,
+   * `chromeos`, `linux` or `other`.
+   */
+  readonly clientHintPlatform: Optional<string>;
+  /** The `Sec-CH-UA-Mobile` hint when `includeClientHints` is `true`. */
+  readonly clientHintMobile: Optional<boolean>;
+  /**
+   * The preferred languages when `includeAcceptLanguage` is `true`: the
+   * lowercased language ranges of `Accept-Language`, most preferred first,
+   * joined with `,`, e.g. `en-us,en,nl`. `null` when not included or when the
+   * header holds no usable range.
+   */
+  readonly acceptLanguage: Optional<string>;
+  /**
+   * The TLS client fingerprint when `includeTlsFingerprint` is `true`: a JA4
+   * fingerprint such as `t13d1516h2_8daaf6152771_e5627efa2ab1`, or the
+   * 32-character JA3 MD5 hash with `tlsFingerprintFormat: 'ja3'`. `null` when
+   * not included or when no source reported one.
+   */
+  readonly tlsFingerprint: Optional<string>;
+  /**
+   * The header order fingerprint when `includeHeaderOrder` is `true`: the
+   * {@link fnv1a64Hex} of the lowercased header names from `rawHeaders`,
+   * joined with `,`. `null` when not included, when the source has no
+   * `rawHeaders`, or when every header is ignored.
+   */
+  readonly headerOrder: Optional<string>;
+  /**
+   * The normalized value of each of `traitPlugins`, keyed by plugin name.
+   * Empty when no plugins are configured.
+   */
+  readonly plugins: Readonly<Record<string, Optional<string>>>;
   readonly method: Optional<string>;
   readonly path: Optional<string>;
 }
 
+/**
+ * Where the client IP in {@link FingerprintTraits} was read from: a
+ * forwarding `header`, the socket `peer`, or the source address of a
+ * `proxy-protocol` header.
+ */
+export type IpSource = 'header' | 'peer' | 'proxy-protocol';
+
+/**
+ * The IANA special-purpose class of an IP address, see {@link classifyIp}.
+ *
+ * - `public`: globally reachable unicast.
+ * - `unspecified`: `0.0.0.0/8` and `::`.
+ * - `loopback`: `127.0.0.0/8` and `::1`.
+ * - `private`: RFC 1918 ranges and the local-use NAT64 prefix `64:ff9b:1::/48`.
+ * - `shared`: carrier-grade NAT space `100.64.0.0/10`.
+ * - `linklocal`: `169.254.0.0/16` and `fe80::/10`.
+ * - `uniquelocal`: IPv6 unique local addresses `fc00::/7`.
+ * - `documentation`: the IPv4 `TEST-NET` blocks, `2001:db8::/32` and
+ *   `3fff::/20`.
+ * - `benchmarking`: `198.18.0.0/15` and `2001:2::/48`.
+ * - `multicast`: `224.0.0.0/4` and `ff00::/8`.
+ * - `broadcast`: `255.255.255.255`.
+ * - `reserved`: every other special-purpose or unallocated block.
+ */
+export type IpClass =
+  | 'public'
+  | 'unspecified'
+  | 'loopback'
+  | 'private'
+  | 'shared'
+  | 'linklocal'
+  | 'uniquelocal'
+  | 'documentation'
+  | 'benchmarking'
+  | 'multicast'
+  | 'broadcast'
+  | 'reserved';
+
+/**
+ * What to do with a client address whose {@link IpClass} is not `public`:
+ * use it as is (`accept`), pass over it during extraction (`skip`), or anchor
+ * every such client on one shared bucket per class (`bucket`).
+ */
+export type NonPublicIpPolicy = 'accept' | 'skip' | 'bucket';
+
+/** An IP address family: `4` or `6`. */
+export type IpFamily = 4 | 6;
+
+/** An IP address parsed by {@link parseIp}. */
+export interface IpAddress {
+  readonly family: IpFamily;
+  /** The address in network byte order: 4 bytes for IPv4, 16 for IPv6. */
+  readonly bytes: Uint8Array;
+  /** The IPv6 zone identifier, e.g. `eth0` in `fe80::1%eth0`, or `null`. */
+  readonly zone: Optional<string>;
+}
+
+/** A network prefix parsed by {@link parseIpPrefix}. */
+export interface IpPrefix {
+  /** The network address, with every bit past `length` cleared. */
+  readonly address: IpAddress;
+  /** The prefix length in bits: `0..32` for IPv4, `0..128` for IPv6. */
+  readonly length: number;
+}
+
+/** The transport and address family announced by a PROXY protocol header. */
+export type ProxyProtocolTransport =
+  | 'tcp4'
+  | 'tcp6'
+  | 'udp4'
+  | 'udp6'
+  | 'unix-stream'
+  | 'unix-dgram'
+  | 'unknown';
+
+/** A raw PROXY protocol v2 type-length-value extension. */
+export interface ProxyProtocolTlv {
+  readonly type: number;
+  readonly value: Uint8Array;
+}
+
+/** A PROXY protocol header parsed by {@link parseProxyProtocol}. */
+export interface ProxyProtocolHeader {
+  readonly version: 1 | 2;
+  /** `local` connections come from the load balancer itself (health checks). */
+  readonly command: 'proxy' | 'local';
+  readonly transport: ProxyProtocolTransport;
+  readonly sourceAddress: Optional<string>;
+  readonly sourcePort: Optional<number>;
+  readonly destinationAddress: Optional<string>;
+  readonly destinationPort: Optional<number>;
+  /**
+   * All v2 TLVs in wire order. Always empty for v1 and for `local` or
+   * `unknown` v2 headers, whose body is skipped.
+   */
+  readonly tlvs: readonly ProxyProtocolTlv[];
+  /** The `PP2_TYPE_AUTHORITY` TLV (the client's SNI host name), if present. */
+  readonly authority: Optional<string>;
+  /** The AWS VPC endpoint ID from the `PP2_TYPE_AWS` TLV, if present. */
+  readonly awsVpceId: Optional<string>;
+  /** Header size in bytes; the connection payload starts at this offset. */
+  readonly length: number;
+}
+
+/**
+ * A value decoded from an MMDB data section. Unsigned integers wider than
+ * `Number.MAX_SAFE_INTEGER` are returned as `bigint`.
+ */
+export type MmdbValue =
+  | string
+  | number
+  | bigint
+  | boolean
+  | Uint8Array
+  | readonly MmdbValue[]
+  | { readonly [key: string]: MmdbValue };
+
+/** The metadata section of an MMDB file, see {@link createMmdbReader}. */
+export interface MmdbMetadata {
+  readonly nodeCount: number;
+  readonly recordSize: 24 | 28 | 32;
+  readonly ipVersion: IpFamily;
+  /** e.g. `GeoLite2-ASN` or `GeoLite2-Country`. */
+  readonly databaseType: string;
+  readonly languages: readonly string[];
+  /** Descriptions keyed by language code. */
+  readonly description: Readonly<Record<string, string>>;
+  /** Build time in seconds since the Unix epoch. */
+  readonly buildEpoch: number;
+  readonly binaryFormatMajorVersion: number;
+  readonly binaryFormatMinorVersion: number;
+}
+
+/** An open MMDB file returned by {@link createMmdbReader}. */
+export interface MmdbReader {
+  readonly metadata: MmdbMetadata;
+  /**
+   * The record for the network containing `ip`, or `null` if the address is
+   * not in the database or is not an IP literal. IPv6 addresses always miss
+   * in an IPv4-only database.
+   */
+  readonly lookup: (ip: string) => Optional<MmdbValue>;
+}
+
+/** Network attributes of a client IP, see {@link IpNetworkLookup}. */
+export interface IpNetworkInfo {
+  /** The autonomous system number announcing the address. */
+  readonly asn: Optional<number>;
+  /** The ISO 3166-1 alpha-2 country code of the address. */
+  readonly country: Optional<string>;
+}
+
+/**
+ * Resolves the network attributes of a client IP, usually built from MMDB
+ * files with {@link createMmdbLookup}. Return `null`, or `null` fields, for
+ * unknown addresses.
+ */
+export type IpNetworkLookup = (ip: string) => Optional<IpNetworkInfo>;
+
+/**
+ * A network attribute supplied by the edge provider, see
+ * {@link FingerprintOptions.edgeTraits}.
+ *
+ * - `asn`: the autonomous system number of the client.
+ * - `country`: the ISO 3166-1 alpha-2 country code (`T1` for Tor on
+ *   Cloudflare).
+ * - `colo`: the IATA code of the edge location that took the request.
+ * - `bot`: Cloudflare Bot Management's verdict, see {@link EdgeBotClass}.
+ */
+export type EdgeTrait = 'asn' | 'country' | 'colo' | 'bot';
+
+/**
+ * How an enabled edge attribute is used.
+ *
+ * - `trait`: reported on `traits` only; the key is unchanged.
+ * - `scope`: also appended to `parts` as `<name>:<value>`, partitioning the
+ *   key space like `includeMethod`. An unknown value is an empty segment.
+ * - `anchor`: replaces the IP anchor when the value is known. Several
+ *   anchored attributes combine; the IP anchor is kept when none is known.
+ */
+export type EdgeTraitRole = 'trait' | 'scope' | 'anchor';
+
+/** Edge attributes to extract, each with its {@link EdgeTraitRole}. */
+export type EdgeTraitRoles = Readonly<
+  Partial<Record<EdgeTrait, EdgeTraitRole>>
+>;
+
+/**
+ * Header names per header-backed edge attribute, read in order. See
+ * {@link DEFAULT_EDGE_HEADERS}.
+ */
+export type EdgeHeaders = Readonly<
+  Partial<Record<Exclude<EdgeTrait, 'bot'>, readonly string[]>>
+>;
+
+/**
+ * Cloudflare Bot Management's verdict on a request.
+ *
+ * - `verified`: a known good bot, such as a search engine crawler.
+ * - `automated`: bot score 1.
+ * - `likely-automated`: bot score 2 to 29.
+ * - `likely-human`: bot score 30 to 99.
+ *
+ * @see https://developers.cloudflare.com/bots/concepts/bot-score/
+ */
+export type EdgeBotClass =
+  | 'verified'
+  | 'automated'
+  | 'likely-automated'
+  | 'likely-human';
+
+/**
+ * The fields of Cloudflare's `request.cf` object read by fpyx.
+ *
+ * @see https://developers.cloudflare.com/workers/runtime-apis/request/#incomingrequestcfproperties
+ */
+export interface EdgeCfProperties {
+  readonly asn?: number;
+  readonly country?: string;
+  readonly colo?: string;
+  readonly botManagement?: {
+    readonly score?: number;
+    readonly verifiedBot?: boolean;
+    readonly ja3Hash?: string;
+    readonly ja4?: string;
+  };
+}
+
+/**
+ * Why a candidate value was rejected or skipped during IP extraction.
+ *
+ * - `empty`: the hop carried no value (e.g. a `Forwarded` element without
+ *   `for=`).
+ * - `unknown-token`: a placeholder such as `unknown`, `null` or `none`.
+ * - `obfuscated`: an RFC 7239 obfuscated identifier (leading `_`).
+ * - `invalid-port`: a port suffix that is not a number in `0..65535`.
+ * - `invalid-literal`: anything else that is not an IPv4 or IPv6 literal.
+ * - `trusted-hop`: skipped because it sits within the header's
+ *   `trustedHops`.
+ * - `trusted-proxy`: skipped because it is inside `trustedProxies`.
+ * - `non-public`: a special-purpose address rejected by
+ *   `nonPublicIps: 'skip'`.
+ */
+export type IpCandidateReason =
+  | 'empty'
+  | 'unknown-token'
+  | 'obfuscated'
+  | 'invalid-port'
+  | 'invalid-literal'
+  | 'trusted-hop'
+  | 'trusted-proxy'
+  | 'non-public';
+
+/**
+ * What happened to one hop entry of a header. `not-consulted` entries were
+ * never looked at, because a decision was made before reaching them.
+ */
+export type IpCandidateOutcome =
+  | 'selected'
+  | 'rejected'
+  | 'skipped'
+  | 'not-consulted';
+
+/** How a header's entries were walked. See {@link IpExtractionOptions}. */
+export type IpHeaderStrategy = 'leftmost' | 'trusted-hops' | 'trusted-proxies';
+
+/**
+ * What a checked header yielded. `chain-too-short` means the header had fewer
+ * entries than its `trustedHops`.
+ */
+export type IpHeaderOutcome =
+  | 'absent'
+  | 'selected'
+  | 'no-valid-ip'
+  | 'chain-too-short';
+
+/** One entry of a header's hop chain, as seen by {@link explainClientIp}. */
+export interface IpCandidateExplanation {
+  /** Position in the chain, `0` being the left-most entry. */
+  readonly hop: number;
+  /** The entry as read from the header, or `null` if the hop had none. */
+  readonly value: Optional<string>;
+  /** The IP literal the entry parsed to, if it is one. */
+  readonly ip: Optional<string>;
+  readonly outcome: IpCandidateOutcome;
+  readonly reason: Optional<IpCandidateReason>;
+}
+
+/** One header checked by {@link explainClientIp}, in precedence order. */
+export interface IpHeaderExplanation {
+  /** The lowercased header name. */
+  readonly header: string;
+  /** The raw header value, or `null` if the header was absent. */
+  readonly value: Optional<string>;
+  readonly strategy: IpHeaderStrategy;
+  readonly outcome: IpHeaderOutcome;
+  readonly candidates: readonly IpCandidateExplanation[];
+}
+
+/**
+ * A diagnostic account of how the client IP was chosen, returned by
+ * {@link explainClientIp} and by {@link fingerprint} with `explain: true`.
+ *
+ * `ip` is the extracted literal before subnet bucketing.
+ */
+export interface IpExplanation {
+  readonly ip: Optional<string>;
+  readonly source: Optional<IpSource>;
+  /** The header that yielded `ip`, or `null` if it did not come from one. */
+  readonly header: Optional<string>;
+  /** The winning entry's position in that header's chain. */
+  readonly hop: Optional<number>;
+  /** The socket peer address, if one was supplied and is an IP literal. */
+  readonly peer: Optional<string>;
+  /**
+   * Whether the peer is inside `trustedProxies`. `null` unless
+   * `requireTrustedPeer` is set. When `false`, no header was checked.
+   */
+  readonly peerTrusted: Optional<boolean>;
+  readonly headers: readonly IpHeaderExplanation[];
+}
+
+/**
+ * A sign that IP headers were written by someone other than your edge,
+ * reported by {@link detectSpoofingSignals} and by {@link fingerprint} with
+ * `detectSpoofing: true`.
+ *
+ * - `header-mismatch`: `header` names a different client than
+ *   `primaryHeader`, the first header in precedence order that yields one.
+ * - `non-public-client`: a header's client position holds an address whose
+ *   {@link IpClass} is not `public`, reported as `ipClass`.
+ * - `untrusted-forwarding`: with `requireTrustedPeer`, a peer outside
+ *   `trustedProxies` sent a forwarding header.
+ */
+export type IpSpoofingSignal =
+  | {
+      readonly kind: 'header-mismatch';
+      readonly header: string;
+      readonly ip: string;
+      readonly primaryHeader: string;
+      readonly primaryIp: string;
+    }
+  | {
+      readonly kind: 'non-public-client';
+      readonly header: string;
+      readonly ip: string;
+      readonly ipClass: Exclude<IpClass, 'public'>;
+    }
+  | {
+      readonly kind: 'untrusted-forwarding';
+      readonly header: string;
+      readonly peer: Optional<string>;
+    };
+
+/**
+ * One step of {@link FingerprintOptions.actorSources}.
+ *
+ * - `header`: the trimmed value of a header such as `x-api-key`.
+ * - `bearer`: the token of an `Authorization: Bearer` header (RFC 6750).
+ * - `cookie`: the value of a named cookie from the `Cookie` header.
+ * - `ip`: ends the chain; the key anchors on the client IP.
+ *
+ * A credential is only used when `validate`, if given, accepts the raw
+ * value; otherwise the chain moves on to the next step. `validate` runs
+ * before hashing and is the place to check a key's format or prefix.
+ */
+export type ActorSource =
+  | {
+      readonly kind: 'header';
+      readonly name: string;
+      readonly validate?: (value: string) => boolean;
+    }
+  | {
+      readonly kind: 'bearer';
+      readonly validate?: (value: string) => boolean;
+    }
+  | {
+      readonly kind: 'cookie';
+      readonly name: string;
+      readonly validate?: (value: string) => boolean;
+    }
+  | { readonly kind: 'ip' };
+
 /**
  * The request data source accepted by {@link fingerprint}.
  *
  * Accepts a standard Fetch API `Request` object, or a lightweight plain
  * object carrying only the fields that `fingerprint` needs. The plain-object
  * form is useful in edge runtimes where constructing a full `Request` is
- * unnecessary.
+ * unnecessary, and in servers that know the TCP peer address.
  */
 export type FingerprintSource =
   | Request
@@ -44,16 +547,279 @@ export type FingerprintSource =
       readonly headers: Headers;
       readonly method?: string;
       readonly url?: string | URL;
+      /**
+       * The socket peer address, e.g. Node's `req.socket.remoteAddress`.
+       *
+       * Used as the client IP when no forwarding header yields one, and
+       * checked against `trustedProxies` when `requireTrustedPeer` is set.
+       */
+      readonly remoteAddress?: string;
+      /**
+       * A PROXY protocol header read from the connection. When it carries a
+       * source address, that address replaces `remoteAddress` as the peer,
+       * since the socket peer is then the load balancer.
+       */
+      readonly proxyProtocol?: ProxyProtocolHeader;
+      /**
+       * Cloudflare's `request.cf` object, for sources that are not the
+       * Workers `Request` itself. Only read for attributes enabled through
+       * `edgeTraits` or `includeTlsFingerprint`.
+       */
+      readonly cf?: EdgeCfProperties;
+      /**
+       * The raw TLS ClientHello the client sent, as a TLS record or a bare
+       * handshake message, for servers that terminate TLS themselves. Used
+       * to compute the TLS fingerprint when `includeTlsFingerprint` is set.
+       */
+      readonly clientHello?: Uint8Array;
+      /**
+       * The request headers as received, alternating names and values, such
+       * as Node's `IncomingMessage.rawHeaders`. `Headers` loses the order in
+       * which the client sent them; this list keeps it for
+       * `includeHeaderOrder`.
+       */
+      readonly rawHeaders?: readonly string[];
     };
 
+/**
+ * Splits a raw header value into its hop entries, left-most (furthest from
+ * the server) first. Return `null` for a hop that carries no usable value so
+ * that positions used by `trustedHops` stay aligned. Every returned entry is
+ * still validated as an IP literal; brackets and ports are stripped as usual.
+ */
+export type IpHeaderParser = (value: string) => readonly Optional<string>[];
+
+/**
+ * A built-in {@link IpHeaderParser}, usable by name in `ipHeaderParsers`.
+ *
+ * - `forwarded`: RFC 7239 `Forwarded`, one entry per element's `for=`.
+ * - `x-forwarded-for`: a comma-separated list.
+ * - `address-port`: a single `ip:port` with an unbracketed IPv6 address.
+ * - `single`: the whole value as one entry.
+ */
+export type BuiltinIpHeaderParser =
+  | 'forwarded'
+  | 'x-forwarded-for'
+  | 'address-port'
+  | 'single';
+
+/**
+ * Trust settings consulted by {@link extractClientIp} while walking the
+ * configured IP headers.
+ */
+export interface IpExtractionOptions {
+  /**
+   * Parsers for individual IP headers, keyed by header name
+   * (case-insensitive). A value is either an {@link IpHeaderParser} or the
+   * name of a built-in one, so a proxy that writes an `X-Forwarded-For` style
+   * list under another name can reuse it:
+   * `{ 'x-original-forwarded-for': 'x-forwarded-for' }`.
+   *
+   * Entries override {@link DEFAULT_IP_HEADER_PARSERS}; headers without a
+   * parser are read as a single IP literal.
+   *
+   * @throws {TypeError} from extraction for an unknown built-in name.
+   */
+  readonly ipHeaderParsers?: Readonly<
+    Record<string, IpHeaderParser | BuiltinIpHeaderParser>
+  >;
+
+  /**
+   * Per-header number of trusted proxy hops, keyed by header name
+   * (case-insensitive).
+   *
+   * By default the left-most valid entry of `X-Forwarded-For` and `Forwarded`
+   * is used, which the client fully controls. When a header has a hop count
+   * `n`, the entry `n` positions from the right is used instead: with a CDN
+   * in front of a load balancer, `{ 'x-forwarded-for': 2 }` picks the address
+   * the CDN saw.
+   *
+   * If the chain has fewer than `n` entries, or the entry at that position is
+   * not a valid IP literal, the header yields no IP and extraction falls
+   * through to the next header in precedence order. Entries further left are
+   * never consulted. Headers other than `Forwarded` and `X-Forwarded-For` are
+   * treated as a chain of one entry.
+   *
+   * Each value must be an integer `>= 1`.
+   */
+  readonly trustedHops?: Readonly<Record<string, number>>;
+
+  /**
+   * Addresses and CIDR ranges of your own proxies, plus the keywords
+   * `loopback`, `linklocal` and `uniquelocal`.
+   *
+   * When set, `X-Forwarded-For` and `Forwarded` are walked from right to left,
+   * skipping addresses inside these ranges, and the first address outside
+   * them is used. If every entry is a trusted proxy, the left-most entry is
+   * used. An entry that is not a valid IP literal stops the walk and the
+   * header yields no IP. IPv4 ranges also match IPv4-mapped IPv6 addresses,
+   * while IPv6 ranges only match IPv4 addresses when they lie inside
+   * `::ffff:0:0/96`.
+   *
+   * A `trustedHops` entry for a header takes precedence over this list.
+   *
+   * @throws {TypeError} from extraction if an entry is not a keyword, address
+   *   or CIDR range.
+   */
+  readonly trustedProxies?: readonly string[];
+
+  /**
+   * When `true`, forwarding headers are only read if the socket peer
+   * (`remoteAddress` on the source) is inside `trustedProxies`. Requests
+   * arriving directly from anywhere else are identified by the peer address
+   * alone, so a client cannot spoof its IP by sending forwarding headers.
+   *
+   * Without a `remoteAddress` no peer can be verified and the IP is `null`.
+   */
+  readonly requireTrustedPeer?: boolean;
+
+  /**
+   * How to treat header candidates that are not publicly routable, such as
+   * loopback, RFC 1918, carrier-grade NAT, link-local, documentation or
+   * multicast addresses. In a forwarding header these usually mean a
+   * misconfigured proxy or a spoofing attempt.
+   *
+   * - `accept` (default): use them like any other address.
+   * - `skip`: reject them with reason `non-public`. A left-most pick moves on
+   *   to the next entry; a `trustedHops` or `trustedProxies` pick yields no
+   *   IP from that header, so extraction falls through to the next header.
+   * - `bucket`: extract as with `accept`, but {@link fingerprint} anchors on
+   *   `ip:special:<class>` so all such clients share one bucket per class.
+   *
+   * The socket peer address is never skipped.
+   */
+  readonly nonPublicIps?: NonPublicIpPolicy;
+}
+
+/**
+ * IP extraction settings for one edge provider. See {@link IP_PRESETS}.
+ */
+export interface IpPreset {
+  readonly ipHeaders: readonly string[];
+  readonly trustedHops?: Readonly<Record<string, number>>;
+}
+
+/** The name of a built-in entry in {@link IP_PRESETS}. */
+export type IpPresetName = keyof typeof IP_PRESETS;
+
+/**
+ * Subnet granularity used by {@link normalizeIpForBucket} to turn a client IP
+ * into a rate-limit bucket.
+ */
+export interface IpBucketOptions {
+  /**
+   * The IPv6 subnet prefix length used when masking the client IP bucket.
+   *
+   * Must be an integer in the range `[1, 128]`. Defaults to `56`.
+   *
+   * A `/56` default reflects common residential ISP allocation granularity,
+   * grouping all addresses within a typical household prefix into one bucket
+   * regardless of IPv6 privacy extensions.
+   */
+  readonly ipv6Subnet?: number;
+
+  /**
+   * The IPv4 subnet prefix length used when masking the client IP bucket,
+   * e.g. `24` to put a whole rented `/24` into one bucket.
+   *
+   * Must be an integer in the range `[1, 32]`. Defaults to `32`, which keeps
+   * IPv4 addresses whole. Also applies to IPv4-mapped IPv6 and unwrapped
+   * transition addresses.
+   */
+  readonly ipv4Subnet?: number;
+
+  /**
+   * Per-range masking granularity, keyed by CIDR range, e.g.
+   * `{ '2001:db8::/32': 64, '2a00:1450::/32': 48, '203.0.113.0/24': 32 }`.
+   *
+   * An address inside one or more of these ranges is masked to the length
+   * of the most specific range that contains it; anything else falls back to
+   * `ipv6Subnet` / `ipv4Subnet`. IPv4 ranges also apply to IPv4-mapped and
+   * unwrapped transition addresses. IPv6 ranges never apply to IPv4 clients,
+   * except a range inside `::ffff:0:0/96` with a length above 96, which
+   * applies to the IPv4 addresses it maps with 96 taken off its length.
+   *
+   * @throws {TypeError} if a key is not a valid address or CIDR range.
+   * @throws {RangeError} if a length is not an integer in `[1, 32]` for an
+   *   IPv4 range or `[1, 128]` for an IPv6 range.
+   */
+  readonly subnetOverrides?: Readonly<Record<string, number>>;
+
+  /**
+   * Bucket NAT64 addresses (`64:ff9b::/96`, and `/96` prefixes inside the
+   * local-use `64:ff9b:1::/48`) on the IPv4 client embedded in their last 32
+   * bits. Defaults to `true`.
+   */
+  readonly unwrapNat64?: boolean;
+
+  /**
+   * Bucket 6to4 addresses (`2002::/16`) on the IPv4 address of the 6to4 site.
+   * Defaults to `true`.
+   */
+  readonly unwrap6to4?: boolean;
+
+  /**
+   * Bucket Teredo addresses (`2001::/32`) on the client's public IPv4 address,
+   * decoded from its obfuscated form. Defaults to `true`.
+   */
+  readonly unwrapTeredo?: boolean;
+}
+
+/**
+ * The notation of `traits.ip`, see {@link FingerprintOptions.ipFormat}.
+ *
+ * - `full`: IPv6 as eight zero-padded groups, e.g.
+ *   `2001:0db8:0012:3400:0000:0000:0000:0000`.
+ * - `compressed`: RFC 5952 canonical text, e.g. `2001:db8:12:3400::`.
+ * - `cidr`: the compressed bucket with its prefix length, e.g.
+ *   `2001:db8:12:3400::/56` or `203.0.113.0/24`.
+ *
+ * IPv4 buckets are dotted-quad in every notation.
+ */
+export type IpFormat = 'full' | 'compressed' | 'cidr';
+
+/**
+ * How `traits.userAgent` is derived, see
+ * {@link FingerprintOptions.userAgentFormat}.
+ *
+ * - `normalized`: browser family, major version and OS, e.g.
+ *   `firefox/125 linux` or `curl/8 other`, preferring Client Hints.
+ * - `raw`: the `User-Agent` header as sent, trimmed.
+ */
+export type UserAgentFormat = 'normalized' | 'raw';
+
+/**
+ * Which TLS client fingerprint `traits.tlsFingerprint` holds, see
+ * {@link FingerprintOptions.tlsFingerprintFormat}.
+ *
+ * - `ja4`: the JA4 fingerprint, e.g. `t13d1516h2_8daaf6152771_e5627efa2ab1`.
+ * - `ja3`: the MD5 hash of the JA3 string.
+ *
+ * @see https://github.com/FoxIO-LLC/ja4
+ * @see https://github.com/salesforce/ja3
+ */
+export type TlsFingerprintFormat = 'ja4' | 'ja3';
+
+/**
+ * Which header names `traits.headerOrder` is computed over, see
+ * {@link FingerprintOptions.headerOrderFormat}.
+ *
+ * - `order`: the names in the order the client sent them.
+ * - `set`: the same names sorted, so only which headers were sent counts.
+ */
+export type HeaderOrderFormat = 'order' | 'set';
+
 /**
  * Configuration options for {@link fingerprint}.
  *
  * All fields are optional. When omitted, `fingerprint` anchors identity on
  * the client IP extracted from {@link DEFAULT_IP_HEADERS}, hashed with
- * {@link fnv1a64Hex}, with no method or path scoping and IPv6 masked to `/56`.
+ * {@link fnv1a64Hex}, with no method or path scoping, IPv6 masked to `/56` and
+ * IPv4 kept whole.
  */
-export interface FingerprintOptions {
+export interface FingerprintOptions
+  extends IpExtractionOptions,
+    IpBucketOptions {
   /**
    * When `true`, the HTTP method is appended to the key as a scoping
    * dimension, producing distinct fingerprints for different methods on the
@@ -61,6 +827,118 @@ export interface FingerprintOptions {
    */
   readonly includeMethod?: boolean;
 
+  /**
+   * When `true`, the User-Agent is appended to the key as a scoping
+   * dimension, so clients behind one shared IP, such as an office NAT, are
+   * split by browser. A missing header is an empty `ua:` segment.
+   *
+   * In `normalized` form User-Agent Client Hints come first, since Chromium
+   * freezes the legacy header: the browser is read from `Sec-CH-UA` when it
+   * names a known browser, otherwise from `User-Agent`, and the OS from
+   * `Sec-CH-UA-Platform`, otherwise from `User-Agent`.
+   */
+  readonly includeUserAgent?: boolean;
+
+  /**
+   * When `true`, the `Sec-CH-UA` brands, `Sec-CH-UA-Platform` and
+   * `Sec-CH-UA-Mobile` hints, parsed as RFC 8941 structured fields, are
+   * appended to the key as `ch-ua:`, `ch-platform:` and `ch-mobile:`
+   * segments. Hints that are missing or malformed are empty segments.
+   */
+  readonly includeClientHints?: boolean;
+
+  /**
+   * How the User-Agent is reduced before it is included. Defaults to
+   * `normalized`, which keeps keys stable across minor browser updates;
+   * `raw` splits on every distinct header value.
+   */
+  readonly userAgentFormat?: UserAgentFormat;
+
+  /**
+   * When `true`, the preferred languages from `Accept-Language` are appended
+   * to the key as a scoping dimension. q-values are dropped and only the
+   * order of preference is kept, so the key does not change when a browser
+   * rewrites weights. A missing header is an empty `lang:` segment.
+   */
+  readonly includeAcceptLanguage?: boolean;
+
+  /**
+   * When `true`, each language range collapses to its primary subtag, so
+   * `en-US` and `en-GB` both become `en`. Defaults to `false`.
+   */
+  readonly acceptLanguagePrimaryOnly?: boolean;
+
+  /**
+   * The number of language ranges kept, most preferred first. Must be a
+   * positive integer. Defaults to `3`.
+   *
+   * @throws {RangeError} from `fingerprint` if the value is not a positive
+   *   integer.
+   */
+  readonly maxAcceptLanguages?: number;
+
+  /**
+   * When `true`, the TLS client fingerprint is appended to the key as a
+   * scoping dimension, so clients that share an IP but run different TLS
+   * stacks, such as a browser and a script, are split. It is computed from
+   * `clientHello` on the source when present, otherwise read from
+   * `request.cf.botManagement`, otherwise from `tlsFingerprintHeaders`. A
+   * missing fingerprint is an empty `tls:` segment.
+   */
+  readonly includeTlsFingerprint?: boolean;
+
+  /**
+   * Which fingerprint is used. Defaults to `ja4`, which sorts cipher suites
+   * and extensions and so is not affected by the extension order
+   * randomization of current browsers; `ja3` is.
+   */
+  readonly tlsFingerprintFormat?: TlsFingerprintFormat;
+
+  /**
+   * Headers carrying the fingerprint set by your edge, checked in order.
+   * Values that are not a well-formed fingerprint of `tlsFingerprintFormat`
+   * are skipped. Defaults to the entry for the format in
+   * {@link DEFAULT_TLS_FINGERPRINT_HEADERS}.
+   */
+  readonly tlsFingerprintHeaders?: readonly string[];
+
+  /**
+   * When `true`, a hash of the header names in `rawHeaders` is appended to
+   * the key as a scoping dimension. Browsers send headers in a fixed order
+   * that HTTP libraries rarely reproduce, so this splits scripts from
+   * browsers on the same IP. Sources without `rawHeaders` get an empty
+   * `headers:` segment.
+   */
+  readonly includeHeaderOrder?: boolean;
+
+  /**
+   * Whether the order of the names counts, or only which names were sent.
+   * Defaults to `order`.
+   */
+  readonly headerOrderFormat?: HeaderOrderFormat;
+
+  /**
+   * Header names left out of the header order, case-insensitive. An entry
+   * ending in `*` matches every name with that prefix, e.g. `x-forwarded-*`.
+   * Defaults to {@link DEFAULT_HEADER_ORDER_IGNORE}: headers added by proxies
+   * and headers whose presence depends on state rather than the client,
+   * such as `cookie` and `if-none-match`.
+   *
+   * @throws {TypeError} from `fingerprint` if an entry is blank or contains
+   *   `*` anywhere but at the end.
+   */
+  readonly headerOrderIgnore?: readonly string[];
+
+  /**
+   * Custom traits to extract, see {@link TraitPlugin}. Scoped plugin
+   * segments follow the built-in client traits and precede `method:` and
+   * `path:`.
+   *
+   * @throws {TypeError} from `fingerprint` if a name is invalid, reserved
+   *   for a built-in segment, or used twice.
+   */
+  readonly traitPlugins?: readonly TraitPlugin[];
+
   /**
    * When `true`, the URL pathname is appended to the key as a scoping
    * dimension. Use `pathNormalizer` to collapse dynamic segments (e.g. user
@@ -86,6 +964,14 @@ export interface FingerprintOptions {
    */
   readonly ipHeaders?: readonly string[];
 
+  /**
+   * A named edge-provider preset supplying `ipHeaders` and `trustedHops`
+   * (e.g. `'cloudflare'`, `'vercel'`, `'aws-alb'`). Explicit `ipHeaders`
+   * replace the preset's list; explicit `trustedHops` entries override the
+   * preset's per header. See {@link IP_PRESETS}.
+   */
+  readonly preset?: IpPresetName;
+
   /**
    * A function applied to the URL pathname before it is included in the key.
    * Only called when `includePath` is `true`.
@@ -97,15 +983,76 @@ export interface FingerprintOptions {
   readonly pathNormalizer?: (path: string) => string;
 
   /**
-   * The IPv6 subnet prefix length used when masking the client IP bucket.
+   * CIDR ranges and addresses to exempt from limiting, such as health
+   * checkers, partner networks and office ranges. A client IP inside one of
+   * them gets `verdict: 'exempt'`. The key is computed as usual; acting on
+   * the verdict is up to the caller.
    *
-   * Must be an integer in the range `[1, 128]`. Defaults to `56`.
+   * The client IP is resolved for the verdict even when `actorId` anchors
+   * identity. An IPv6 range only matches IPv4 clients when it lies inside
+   * `::ffff:0:0/96`, so `::/0` covers IPv6 alone. The same holds for
+   * `denyList`.
    *
-   * A `/56` default reflects common residential ISP allocation granularity,
-   * grouping all addresses within a typical household prefix into one bucket
-   * regardless of IPv6 privacy extensions.
+   * @throws {TypeError} from `fingerprint` if an entry is not a valid address
+   *   or CIDR range.
    */
-  readonly ipv6Subnet?: number;
+  readonly allowList?: readonly string[];
+
+  /**
+   * CIDR ranges and addresses to block outright. A client IP inside one of
+   * them gets `verdict: 'deny'`, even if it is also inside `allowList`.
+   *
+   * @throws {TypeError} from `fingerprint` if an entry is not a valid address
+   *   or CIDR range.
+   */
+  readonly denyList?: readonly string[];
+
+  /**
+   * The notation used for `traits.ip`. Defaults to `full`.
+   *
+   * This only changes how the bucket is reported. `parts`, and therefore the
+   * hash, always carry the `full` form, so switching formats never changes an
+   * existing key.
+   */
+  readonly ipFormat?: IpFormat;
+
+  /**
+   * Resolves the ASN and country of the client IP for the `asn` and
+   * `country` traits, typically `createMmdbLookup(asnReader, countryReader)`.
+   * The lookup sees the extracted client address before subnet bucketing.
+   */
+  readonly networkLookup?: IpNetworkLookup;
+
+  /**
+   * When `true` and `networkLookup` knows the client's ASN, identity anchors
+   * on `asn:<number>` instead of the IP bucket, so a whole hosting provider
+   * shares one key. Addresses with no known ASN keep their IP anchor.
+   * `actorId` still takes precedence.
+   */
+  readonly anchorOnAsn?: boolean;
+
+  /**
+   * Edge-provided network attributes to extract, each with the role it plays
+   * in the key, e.g. `{ asn: 'anchor', country: 'scope', bot: 'trait' }`.
+   * Attributes not listed are not extracted.
+   *
+   * Values come from Cloudflare's `request.cf` first, then from the
+   * `edgeHeaders`, and for `asn` and `country` finally from `networkLookup`.
+   * They are normalized: ASNs to integers, country codes to upper case with
+   * Cloudflare's unknown `XX` dropped, and edge locations to IATA codes.
+   *
+   * Edge attributes are read even when `actorId` anchors identity, so they
+   * can still scope an actor's key. Anchoring on `asn` is the same as
+   * `anchorOnAsn`.
+   */
+  readonly edgeTraits?: EdgeTraitRoles;
+
+  /**
+   * Replaces the header list for an edge attribute. Unlisted attributes keep
+   * {@link DEFAULT_EDGE_HEADERS}; pass an empty list to read only
+   * `request.cf`. Only include headers your edge overwrites.
+   */
+  readonly edgeHeaders?: EdgeHeaders;
 
   /**
    * A trusted, caller-provided actor identity such as a session ID, user ID,
@@ -114,8 +1061,95 @@ export interface FingerprintOptions {
    * When present and non-empty after trimming, this value fully replaces
    * network-based identity. No IP address is extracted or included in the
    * fingerprint. The two anchor types are never mixed.
+   *
+   * The value is used as given. Prefer `actorSources` for credentials, which
+   * are hashed before they reach `traits` or `parts`.
    */
   readonly actorId?: Optional<string>;
+
+  /**
+   * Where to find the actor when `actorId` is not given, tried in order,
+   * e.g. an `x-api-key` header, then a bearer token, then a session cookie,
+   * then the IP. The first credential that is present and passes its
+   * `validate` hook becomes the actor; without one the key anchors on the
+   * client IP as usual.
+   *
+   * Credentials are secrets, so they are never used as-is: `traits.actorId`
+   * is `<kind>:<digest>`, where the digest is the first 32 hexadecimal
+   * characters of the SHA-256 of the source and the value. The same
+   * credential always maps to the same actor, and the same value read from
+   * different sources does not collide.
+   *
+   * @throws {TypeError} from `fingerprint` if a `header` or `cookie` step
+   *   has a name that is not a valid header or cookie name.
+   */
+  readonly actorSources?: readonly ActorSource[];
+
+  /**
+   * When `true`, the result carries an {@link IpExplanation} listing every
+   * header and candidate checked while choosing the client IP. Intended for
+   * debugging wrongly throttled clients, not for every request.
+   */
+  readonly explain?: boolean;
+
+  /**
+   * When `true`, every configured IP header is checked (not just the first
+   * that yields an IP) and disagreements between them, non-public addresses
+   * in client positions, and forwarding headers from an untrusted peer are
+   * reported on `signals`. The extracted IP and the hash are unaffected.
+   */
+  readonly detectSpoofing?: boolean;
+}
+
+/**
+ * How a {@link TraitPlugin} value is used.
+ *
+ * - `scope`: appended to `parts` as `<name>:<value>`, partitioning the key
+ *   space like `includeMethod`. An unknown value is an empty segment.
+ * - `anchor`: replaces the IP anchor when the value is known, like an
+ *   anchored edge attribute. Several anchors combine; the IP anchor is kept
+ *   when none is known.
+ */
+export type TraitPluginRole = 'scope' | 'anchor';
+
+/**
+ * A custom dimension of the key, such as a tenant ID or an app version.
+ *
+ * Plugin values are reported on `traits.plugins` and placed in `parts` like
+ * the built-in traits, sorted by name so the key does not depend on the
+ * order of `traitPlugins`.
+ *
+ * @example
+ * ```ts
+ * const tenant: TraitPlugin<string> = {
+ *   name: 'tenant',
+ *   extract: (source) => source.headers.get('x-tenant-id'),
+ *   normalize: (value) => value.trim().toLowerCase() || null,
+ *   role: 'scope',
+ * };
+ * ```
+ */
+export interface TraitPlugin<T = unknown> {
+  /**
+   * The trait name, used as the `traits.plugins` key and the segment name.
+   * Lowercase letters, digits and `-`, starting with a letter, and not the
+   * name of a built-in segment such as `ip` or `ua`.
+   */
+  readonly name: string;
+  /**
+   * Reads the raw value from the request. Return `null` or `undefined` when
+   * the request does not carry it.
+   */
+  readonly extract: (source: FingerprintSource) => T | null | undefined;
+  /**
+   * Reduces the raw value to its key form. Return `null` to treat it as
+   * unknown. Defaults to trimming strings and stringifying finite numbers
+   * and booleans; anything else, and blank strings, are unknown.
+   */
+  // method syntax keeps TraitPlugin<string> assignable to TraitPlugin
+  normalize?(value: T): Optional<string>;
+  /** Defaults to `scope`. */
+  readonly role?: TraitPluginRole;
 }
 
 /** A function that hashes a `Uint8Array` and returns a string. */
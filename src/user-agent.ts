@@ -0,0 +1,126 @@
+import { clientHintsProduct } from './client-hints';
+import type { ClientHints } from './client-hints';
+import type { Optional, UserAgentFormat } from './types';
+
+/**
+ * browser families, most specific first: chromium forks also announce "Chrome/" and
+ * "Safari/", and chrome announces "Safari/". the version is read from the matched token.
+ */
+const BROWSER_TOKENS: readonly (readonly [string, RegExp])[] = [
+  ['edge', /\b(?:Edg|EdgA|EdgiOS|Edge)\/(\d+)/],
+  ['opera', /\b(?:OPR|OPiOS|Opera)\/(\d+)/],
+  ['samsung', /\bSamsungBrowser\/(\d+)/],
+  ['yandex', /\bYaBrowser\/(\d+)/],
+  ['vivaldi', /\bVivaldi\/(\d+)/],
+  ['brave', /\bBrave\/(\d+)/],
+  ['firefox', /\b(?:Firefox|FxiOS)\/(\d+)/],
+  ['headlesschrome', /\bHeadlessChrome\/(\d+)/],
+  ['chrome', /\b(?:Chrome|CriOS|Chromium)\/(\d+)/],
+  ['safari', /\bVersion\/(\d+)(?:[.\d]*)\s(?:Mobile\/\S+\s)?Safari\//],
+];
+
+/**
+ * operating systems, first match wins. ios comes before macos because ios agents say "like
+ * Mac OS X", and android before linux because it announces both.
+ */
+const OS_TOKENS: readonly (readonly [string, RegExp])[] = [
+  ['ios', /\b(?:iPhone|iPad|iPod)\b/],
+  ['android', /\bAndroid\b/],
+  ['chromeos', /\bCrOS\b/],
+  ['windows', /\bWindows\b/],
+  ['macos', /\bMac OS X\b|\bMacintosh\b/],
+  ['linux', /\bLinux\b/],
+];
+
+const PRODUCT_TOKEN = /^([A-Za-z][\w.-]*)(?:\/v?(\d+))?/;
+
+const COMPATIBLE_PRODUCT = /\bcompatible;\s*([A-Za-z][\w.-]*)\/v?(\d+)/i;
+
+/**
+ * reduce a user-agent to "<family>/<major> <os>", e.g. "chrome/124 windows", so that minor
+ * and patch updates and build noise do not change the value.
+ *
+ * browsers are recognized by their own product token; anything else (curl, sdks, bots) falls
+ * back to the first product token other than "Mozilla", preferring the one in a
+ * "compatible; X/n" comment. the major version is omitted when there is none.
+ */
+export function normalizeUserAgent(userAgent: string): string {
+  return `${userAgentProduct(userAgent)} ${userAgentOs(userAgent) ?? 'other'}`;
+}
+
+function userAgentProduct(userAgent: string): string {
+  let family: Optional<string> = null;
+  let major: Optional<string> = null;
+
+  for (const [name, pattern] of BROWSER_TOKENS) {
+    const match = pattern.exec(userAgent);
+    if (match !== null) {
+      family = name;
+      major = match[1] ?? null;
+      break;
+    }
+  }
+
+  if (family === null) {
+    const match = fallbackProduct(userAgent);
+    family = match?.[1]?.toLowerCase() ?? 'other';
+    major = match?.[2] ?? null;
+  }
+
+  return major === null ? family : `${family}/${Number(major)}`;
+}
+
+/**
+ * crawlers and automation often open with "Mozilla/5.0" for compatibility and name
+ * themselves later, e.g. "Mozilla/5.0 (compatible; Googlebot/2.1; ...)". collapsing all of
+ * them into one "other" bucket would lose the distinction.
+ */
+function fallbackProduct(userAgent: string): Optional<RegExpExecArray> {
+  const tokens = userAgent
+    .replace(/\([^)]*\)?/g, ' ')
+    .trim()
+    .split(/\s+/);
+
+  const first = PRODUCT_TOKEN.exec(tokens[0] ?? '');
+  if (first !== null && first[1]!.toLowerCase() !== 'mozilla') return first;
+
+  const compatible = COMPATIBLE_PRODUCT.exec(userAgent);
+  if (compatible !== null) return compatible;
+
+  for (const token of tokens.slice(1)) {
+    const match = PRODUCT_TOKEN.exec(token);
+    if (match !== null) return match;
+  }
+
+  return null;
+}
+
+function userAgentOs(userAgent: string): Optional<string> {
+  return OS_TOKENS.find(([, pattern]) => pattern.test(userAgent))?.[0] ?? null;
+}
+
+/**
+ * the user-agent trait: null when neither source says anything, otherwise the normalized
+ * token, or the trimmed header in raw mode.
+ *
+ * normalized mode reads user-agent client hints first, because chromium freezes the version
+ * and platform in the legacy header: the browser comes from `Sec-CH-UA` when it names a known
+ * browser, else from `User-Agent`; the os comes from `Sec-CH-UA-Platform`, else from
+ * `User-Agent`.
+ */
+export function extractUserAgent(
+  headers: Headers,
+  format: UserAgentFormat,
+  hints: ClientHints
+): Optional<string> {
+  const value = headers.get('user-agent')?.trim() ?? '';
+  if (format === 'raw') return value === '' ? null : value;
+
+  const product =
+    clientHintsProduct(hints) ??
+    (value === '' ? null : userAgentProduct(value));
+  if (product === null) return null;
+
+  const os = hints.platform ?? (value === '' ? null : userAgentOs(value));
+  return `${product} ${os ?? 'other'}`;
+}
@@ -1,6 +1,14 @@
+import { DEFAULT_IP_HEADERS, IP_PRESETS } from './constants';
+import { EDGE_TRAITS } from './edge';
+import { compileTraitPlugins } from './trait-plugins';
+import type { CompiledTraitPlugin } from './trait-plugins';
 import type {
+  FingerprintOptions,
   FingerprintSource,
   FingerprintTraits,
+  IpExtractionOptions,
+  IpPreset,
+  IpSource,
   Optional,
   Possible,
 } from './types';
@@ -17,6 +25,61 @@ export function extractMethod(source: FingerprintSource): Optional<string> {
   return source.method ?? null;
 }
 
+export interface PeerAddress {
+  readonly address: Optional<string>;
+  readonly source: Extract<IpSource, 'peer' | 'proxy-protocol'>;
+}
+
+/**
+ * the address of whoever connected to us. a proxy protocol source address wins over the
+ * socket peer, because with proxy protocol the socket peer is the load balancer.
+ */
+export function extractPeerAddress(source: FingerprintSource): PeerAddress {
+  if ('proxyProtocol' in source) {
+    const address = source.proxyProtocol?.sourceAddress ?? null;
+    if (address !== null) return { address, source: 'proxy-protocol' };
+  }
+
+  if ('remoteAddress' in source && typeof source.remoteAddress === 'string') {
+    return { address: source.remoteAddress, source: 'peer' };
+  }
+
+  return { address: null, source: 'peer' };
+}
+
+export interface ResolvedIpSettings {
+  readonly ipHeaders: readonly string[];
+  readonly extraction: Possible<IpExtractionOptions>;
+}
+
+/**
+ * layer a named ip preset under the caller's explicit ipHeaders and trustedHops.
+ */
+export function resolveIpSettings(
+  options: Possible<FingerprintOptions>
+): ResolvedIpSettings {
+  if (options?.preset === undefined) {
+    return {
+      ipHeaders: options?.ipHeaders ?? DEFAULT_IP_HEADERS,
+      extraction: options,
+    };
+  }
+
+  if (!Object.hasOwn(IP_PRESETS, options.preset)) {
+    throw new TypeError(`unknown ip preset: ${String(options.preset)}`);
+  }
+
+  const preset: IpPreset = IP_PRESETS[options.preset];
+
+  return {
+    ipHeaders: options.ipHeaders ?? preset.ipHeaders,
+    extraction: {
+      ...options,
+      trustedHops: { ...preset.trustedHops, ...options.trustedHops },
+    },
+  };
+}
+
 /**
  * extract pathname from a url, optionally normalized by caller.
  */
@@ -46,17 +109,74 @@ export function extractPath(
 
 /**
  * anchor is explicit and non-mixed (actor OR ip).
- * method and path, if present, are appended only as key-space partitioning.
+ * known edge attributes with the `anchor` role (or the asn under `anchorOnAsn`) replace the ip.
+ * under `nonPublicIps: 'bucket'` every special-purpose client of one class shares an anchor.
+ * a hierarchy level, if any, follows the anchor so keys for different levels never collide.
+ * edge attributes with the `scope` role, then the user-agent, client hints, languages, method
+ * and path, if present, are appended only as key-space partitioning.
  */
-export function buildParts(traits: FingerprintTraits): readonly string[] {
+export function buildParts(
+  traits: FingerprintTraits,
+  options?: FingerprintOptions,
+  level?: Optional<string>
+): readonly string[] {
   const segments: string[] = [];
+  const plugins =
+    options?.traitPlugins === undefined
+      ? []
+      : compileTraitPlugins(options.traitPlugins);
+  const anchors = [
+    ...edgeSegments(traits, options, 'anchor'),
+    ...pluginSegments(traits, plugins, 'anchor'),
+  ];
 
   if (traits.actorId !== null) {
     segments.push(`actor:${traits.actorId}`);
+  } else if (anchors.length > 0) {
+    segments.push(...anchors);
+  } else if (
+    options?.nonPublicIps === 'bucket' &&
+    traits.ipClass !== null &&
+    traits.ipClass !== 'public'
+  ) {
+    segments.push(`ip:special:${traits.ipClass}`);
   } else {
     segments.push(`ip:${traits.ip ?? ''}`);
   }
 
+  if (level !== undefined && level !== null) {
+    segments.push(`level:${level}`);
+  }
+
+  segments.push(...edgeSegments(traits, options, 'scope'));
+
+  if (options?.includeUserAgent === true) {
+    segments.push(`ua:${traits.userAgent ?? ''}`);
+  }
+
+  if (options?.includeClientHints === true) {
+    const mobile = traits.clientHintMobile;
+    segments.push(
+      `ch-ua:${traits.clientHintBrands ?? ''}`,
+      `ch-platform:${traits.clientHintPlatform ?? ''}`,
+      `ch-mobile:${mobile === null ? '' : mobile ? '1' : '0'}`
+    );
+  }
+
+  if (options?.includeAcceptLanguage === true) {
+    segments.push(`lang:${traits.acceptLanguage ?? ''}`);
+  }
+
+  if (options?.includeTlsFingerprint === true) {
+    segments.push(`tls:${traits.tlsFingerprint ?? ''}`);
+  }
+
+  if (options?.includeHeaderOrder === true) {
+    segments.push(`headers:${traits.headerOrder ?? ''}`);
+  }
+
+  segments.push(...pluginSegments(traits, plugins, 'scope'));
+
   if (traits.method !== null) {
     segments.push(`method:${traits.method}`);
   }
@@ -67,3 +187,53 @@ export function buildParts(traits: FingerprintTraits): readonly string[] {
 
   return segments;
 }
+
+/**
+ * `<name>:<value>` segments for the edge attributes playing `role`, in {@link EDGE_TRAITS}
+ * order. anchors only include known values; scopes keep unknown values as empty segments.
+ */
+function edgeSegments(
+  traits: FingerprintTraits,
+  options: Possible<FingerprintOptions>,
+  role: 'anchor' | 'scope'
+): string[] {
+  const segments: string[] = [];
+
+  for (const trait of EDGE_TRAITS) {
+    const anchored =
+      options?.edgeTraits?.[trait] === 'anchor' ||
+      (trait === 'asn' && options?.anchorOnAsn === true);
+    const playsRole =
+      role === 'anchor'
+        ? anchored
+        : !anchored && options?.edgeTraits?.[trait] === 'scope';
+    if (!playsRole) continue;
+
+    const value = traits[trait];
+    if (value === null && role === 'anchor') continue;
+    segments.push(`${trait}:${value ?? ''}`);
+  }
+
+  return segments;
+}
+
+/**
+ * `<name>:<value>` segments for the trait plugins playing `role`, in name order. like edge
+ * segments, anchors only include known values and scopes keep unknown values as empty.
+ */
+function pluginSegments(
+  traits: FingerprintTraits,
+  plugins: readonly CompiledTraitPlugin[],
+  role: 'anchor' | 'scope'
+): string[] {
+  const segments: string[] = [];
+
+  for (const plugin of plugins) {
+    if (plugin.role !== role) continue;
+    const value = traits.plugins[plugin.name] ?? null;
+    if (value === null && role === 'anchor') continue;
+    segments.push(`${plugin.name}:${value ?? ''}`);
+  }
+
+  return segments;
+}
@@ -0,0 +1,139 @@
+import { describe, expect, it } from 'vitest';
+
+import { parseAcceptLanguage } from '../src/accept-language';
+import { fingerprint } from '../src/index';
+
+const FULL = { primaryOnly: false, limit: 10 };
+
+describe('parseAcceptLanguage', () => {
+  it('orders ranges by weight and drops q-values', () => {
+    expect(
+      parseAcceptLanguage('da, en-gb;q=0.8, en;q=0.7, fr;q=0.9', FULL)
+    ).toEqual(['da', 'fr', 'en-gb', 'en']);
+  });
+
+  it('keeps header order for equal weights', () => {
+    expect(parseAcceptLanguage('nl;q=0.5, de;q=0.5, en', FULL)).toEqual([
+      'en',
+      'nl',
+      'de',
+    ]);
+  });
+
+  it('lowercases tags and removes duplicates', () => {
+    expect(parseAcceptLanguage('en-US, EN-us;q=0.9, en', FULL)).toEqual([
+      'en-us',
+      'en',
+    ]);
+  });
+
+  it('drops ranges that are not acceptable', () => {
+    expect(parseAcceptLanguage('en, fr;q=0, de;q=0.000', FULL)).toEqual(['en']);
+  });
+
+  it('skips malformed entries', () => {
+    expect(
+      parseAcceptLanguage(
+        'en_US, toolonglang, zh-Hant-TW, de;q=2, fr;q=0.1234, it;level=1, , *;q=0.1',
+        FULL
+      )
+    ).toEqual(['zh-hant-tw', '*']);
+  });
+
+  it('collapses to primary subtags', () => {
+    expect(
+      parseAcceptLanguage('en-US, en-GB;q=0.9, pt-BR;q=0.8, en;q=0.7', {
+        primaryOnly: true,
+        limit: 10,
+      })
+    ).toEqual(['en', 'pt']);
+  });
+
+  it('caps the list length', () => {
+    expect(
+      parseAcceptLanguage('en, nl, de, fr', { primaryOnly: false, limit: 2 })
+    ).toEqual(['en', 'nl']);
+  });
+
+  it('returns an empty list for an empty header', () => {
+    expect(parseAcceptLanguage('', FULL)).toEqual([]);
+  });
+});
+
+describe('fingerprint with includeAcceptLanguage', () => {
+  function request(acceptLanguage?: string) {
+    const headers = new Headers({ 'x-forwarded-for': '203.0.113.7' });
+    if (acceptLanguage !== undefined) {
+      headers.set('accept-language', acceptLanguage);
+    }
+    return { headers };
+  }
+
+  it('leaves languages out by default', () => {
+    const result = fingerprint(request('en-US'));
+
+    expect(result.traits.acceptLanguage).toBeNull();
+    expect(result.parts).toEqual(['ip:203.0.113.7']);
+  });
+
+  it('scopes the key by preferred languages, capped at three', () => {
+    const result = fingerprint(request('en-US,en;q=0.9,nl;q=0.8,de;q=0.7'), {
+      includeAcceptLanguage: true,
+    });
+
+    expect(result.traits.acceptLanguage).toBe('en-us,en,nl');
+    expect(result.parts).toEqual(['ip:203.0.113.7', 'lang:en-us,en,nl']);
+  });
+
+  it('keeps the key when only weights change', () => {
+    const a = fingerprint(request('en-US,en;q=0.9'), {
+      includeAcceptLanguage: true,
+    });
+    const b = fingerprint(request('en-us, en;q=0.5'), {
+      includeAcceptLanguage: true,
+    });
+
+    expect(b.hash).toBe(a.hash);
+  });
+
+  it('honours acceptLanguagePrimaryOnly and maxAcceptLanguages', () => {
+    const result = fingerprint(request('en-US,en-GB;q=0.9,nl;q=0.8'), {
+      includeAcceptLanguage: true,
+      acceptLanguagePrimaryOnly: true,
+      maxAcceptLanguages: 1,
+    });
+
+    expect(result.traits.acceptLanguage).toBe('en');
+  });
+
+  it('uses an empty segment without usable languages', () => {
+    const result = fingerprint(request('q=1'), { includeAcceptLanguage: true });
+
+    expect(result.traits.acceptLanguage).toBeNull();
+    expect(result.parts).toEqual(['ip:203.0.113.7', 'lang:']);
+  });
+
+  it('follows the user-agent segment', () => {
+    const headers = new Headers({
+      'x-forwarded-for': '203.0.113.7',
+      'user-agent': 'curl/8.4.0',
+      'accept-language': 'fr',
+    });
+
+    expect(
+      fingerprint(
+        { headers },
+        { includeUserAgent: true, includeAcceptLanguage: true }
+      ).parts
+    ).toEqual(['ip:203.0.113.7', 'ua:curl/8 other', 'lang:fr']);
+  });
+
+  it('rejects an invalid maxAcceptLanguages', () => {
+    expect(() =>
+      fingerprint(request('en'), {
+        includeAcceptLanguage: true,
+        maxAcceptLanguages: 0,
+      })
+    ).toThrow(new RangeError('maxAcceptLanguages must be a positive integer'));
+  });
+});
@@ -0,0 +1,254 @@
+import { describe, expect, it } from 'vitest';
+
+import { extractClientHints } from '../src/client-hints';
+import { fingerprint } from '../src/index';
+import { parseSfItem, parseSfList } from '../src/structured-fields';
+
+const CHROME_HINTS = {
+  'sec-ch-ua':
+    '"Chromium";v="124", "Google Chrome";v="124", "Not-A.Brand";v="99"',
+  'sec-ch-ua-platform': '"Windows"',
+  'sec-ch-ua-mobile': '?0',
+};
+
+const FROZEN_CHROME_UA =
+  'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/124.0.0.0 Safari/537.36';
+
+describe('structured fields', () => {
+  it('parses lists of parameterized strings', () => {
+    const list = parseSfList('"Chromium";v="124", "Not A(Brand";v="99"');
+
+    expect(list).toEqual([
+      { value: 'Chromium', params: new Map([['v', '124']]) },
+      { value: 'Not A(Brand', params: new Map([['v', '99']]) },
+    ]);
+  });
+
+  it('parses every bare item type', () => {
+    expect(parseSfItem('?1')?.value).toBe(true);
+    expect(parseSfItem('-42')?.value).toBe(-42);
+    expect(parseSfItem('4.5')?.value).toBe(4.5);
+    expect(parseSfItem('"a \\"quoted\\" \\\\ string"')?.value).toBe(
+      'a "quoted" \\ string'
+    );
+    expect(parseSfItem('text/html')?.value).toEqual({ token: 'text/html' });
+    expect(parseSfItem(':aGVsbG8=:')?.value).toEqual(
+      Uint8Array.from([104, 101, 108, 108, 111])
+    );
+    expect(parseSfItem('abc;a=1;b')?.params).toEqual(
+      new Map<string, unknown>([
+        ['a', 1],
+        ['b', true],
+      ])
+    );
+  });
+
+  it('parses inner lists', () => {
+    expect(parseSfList('("a" "b");x=?0, c')).toEqual([
+      {
+        items: [
+          { value: 'a', params: new Map() },
+          { value: 'b', params: new Map() },
+        ],
+        params: new Map([['x', false]]),
+      },
+      { value: { token: 'c' }, params: new Map() },
+    ]);
+  });
+
+  it('fails the whole field on any error', () => {
+    expect(parseSfList('"a", ')).toBeNull();
+    expect(parseSfList('"a" "b"')).toBeNull();
+    expect(parseSfItem('"unterminated')).toBeNull();
+    expect(parseSfItem('?2')).toBeNull();
+    expect(parseSfItem('1.2345')).toBeNull();
+    expect(parseSfItem('1234567890123456')).toBeNull();
+    expect(parseSfItem('"tab\there"')).toBeNull();
+    expect(parseSfItem('a;B=1')).toBeNull();
+  });
+
+  it('rejects byte sequences with misplaced padding', () => {
+    expect(parseSfItem(':a=:')).toBeNull();
+    expect(parseSfItem(':a==:')).toBeNull();
+    expect(parseSfItem(':ab=:')).toBeNull();
+    expect(parseSfItem(':ab==:')?.value).toEqual(Uint8Array.from([105]));
+    expect(parseSfItem(':ab:')?.value).toEqual(Uint8Array.from([105]));
+  });
+
+  it('ignores surrounding spaces', () => {
+    expect(parseSfItem('  "Windows"  ')?.value).toBe('Windows');
+  });
+});
+
+describe('extractClientHints', () => {
+  it('normalizes brands, platform and mobile', () => {
+    expect(extractClientHints(new Headers(CHROME_HINTS))).toEqual({
+      brands: ['chromium/124', 'google chrome/124'],
+      platform: 'windows',
+      mobile: false,
+    });
+  });
+
+  it('sorts brands so grease position does not matter', () => {
+    const a = extractClientHints(
+      new Headers({
+        'sec-ch-ua':
+          '"Not/A)Brand";v="8", "Chromium";v="126", "Microsoft Edge";v="126"',
+      })
+    );
+    const b = extractClientHints(
+      new Headers({
+        'sec-ch-ua':
+          '"Microsoft Edge";v="126", ";Not A Brand";v="24", "Chromium";v="126"',
+      })
+    );
+
+    expect(a.brands).toEqual(['chromium/126', 'microsoft edge/126']);
+    expect(b.brands).toEqual(a.brands);
+  });
+
+  it('drops grease brands written with underscores', () => {
+    for (const grease of ['Not_A Brand', 'Not?A_Brand', '_Not:A-Brand']) {
+      const hints = extractClientHints(
+        new Headers({
+          'sec-ch-ua': `"Chromium";v="120", "Google Chrome";v="120", "${grease}";v="8"`,
+        })
+      );
+
+      expect(hints.brands).toEqual(['chromium/120', 'google chrome/120']);
+    }
+  });
+
+  it('maps platforms to user-agent os names', () => {
+    const platform = (value: string) =>
+      extractClientHints(new Headers({ 'sec-ch-ua-platform': value })).platform;
+
+    expect(platform('"macOS"')).toBe('macos');
+    expect(platform('"Chrome OS"')).toBe('chromeos');
+    expect(platform('"Fuchsia"')).toBe('other');
+    expect(platform('"Unknown"')).toBeNull();
+    expect(platform('Windows')).toBeNull();
+  });
+
+  it('reads nothing from malformed or missing hints', () => {
+    expect(
+      extractClientHints(
+        new Headers({
+          'sec-ch-ua': '"Chromium";v="124",',
+          'sec-ch-ua-mobile': '1',
+        })
+      )
+    ).toEqual({ brands: [], platform: null, mobile: null });
+  });
+});
+
+describe('fingerprint with client hints', () => {
+  function request(headers: Record<string, string>) {
+    return {
+      headers: new Headers({ 'x-forwarded-for': '203.0.113.7', ...headers }),
+    };
+  }
+
+  it('adds client hint traits and segments', () => {
+    const result = fingerprint(request(CHROME_HINTS), {
+      includeClientHints: true,
+    });
+
+    expect(result.traits).toMatchObject({
+      clientHintBrands: 'chromium/124,google chrome/124',
+      clientHintPlatform: 'windows',
+      clientHintMobile: false,
+    });
+    expect(result.parts).toEqual([
+      'ip:203.0.113.7',
+      'ch-ua:chromium/124,google chrome/124',
+      'ch-platform:windows',
+      'ch-mobile:0',
+    ]);
+  });
+
+  it('does not throw on malformed byte sequences', () => {
+    for (const value of [':a=:', ':a==:']) {
+      const headers = {
+        'sec-ch-ua': value,
+        'sec-ch-ua-platform': value,
+        'sec-ch-ua-mobile': value,
+      };
+
+      expect(
+        fingerprint(request(headers), {
+          includeClientHints: true,
+          includeUserAgent: true,
+        }).traits
+      ).toMatchObject({
+        userAgent: null,
+        clientHintBrands: null,
+        clientHintPlatform: null,
+        clientHintMobile: null,
+      });
+    }
+  });
+
+  it('uses empty segments without hints', () => {
+    const result = fingerprint(request({}), { includeClientHints: true });
+
+    expect(result.traits.clientHintBrands).toBeNull();
+    expect(result.parts).toEqual([
+      'ip:203.0.113.7',
+      'ch-ua:',
+      'ch-platform:',
+      'ch-mobile:',
+    ]);
+  });
+
+  it('prefers client hints over the user-agent string', () => {
+    const result = fingerprint(
+      request({
+        ...CHROME_HINTS,
+        'sec-ch-ua':
+          '"Chromium";v="126", "Microsoft Edge";v="126", "Not/A)Brand";v="8"',
+        'sec-ch-ua-platform': '"macOS"',
+        'user-agent': FROZEN_CHROME_UA,
+      }),
+      { includeUserAgent: true }
+    );
+
+    expect(result.traits.userAgent).toBe('edge/126 macos');
+    expect(result.traits.clientHintBrands).toBeNull();
+  });
+
+  it('produces the same token from hints and from the user-agent string', () => {
+    const fromHints = fingerprint(request(CHROME_HINTS), {
+      includeUserAgent: true,
+    });
+    const fromUserAgent = fingerprint(
+      request({ 'user-agent': FROZEN_CHROME_UA }),
+      { includeUserAgent: true }
+    );
+
+    expect(fromHints.traits.userAgent).toBe('chrome/124 windows');
+    expect(fromHints.hash).toBe(fromUserAgent.hash);
+  });
+
+  it('falls back to the user-agent string per component', () => {
+    const result = fingerprint(
+      request({
+        'sec-ch-ua': '"Not-A.Brand";v="99"',
+        'sec-ch-ua-platform': '"Android"',
+        'user-agent': 'Mozilla/5.0 (X11; Linux x86_64; rv:125.0) Firefox/125.0',
+      }),
+      { includeUserAgent: true }
+    );
+
+    expect(result.traits.userAgent).toBe('firefox/125 android');
+  });
+
+  it('ignores client hints in raw mode', () => {
+    const result = fingerprint(
+      request({ ...CHROME_HINTS, 'user-agent': FROZEN_CHROME_UA }),
+      { includeUserAgent: true, userAgentFormat: 'raw' }
+    );
+
+    expect(result.traits.userAgent).toBe(FROZEN_CHROME_UA);
+  });
+});
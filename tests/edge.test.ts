@@ -0,0 +1,205 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  classifyBot,
+  normalizeAsn,
+  normalizeColo,
+  normalizeCountry,
+} from '../src/edge';
+import { fingerprint } from '../src/index';
+import type { EdgeCfProperties } from '../src/types';
+
+function request(
+  headers: Record<string, string>,
+  cf?: EdgeCfProperties
+): {
+  headers: Headers;
+  cf?: EdgeCfProperties;
+} {
+  const base = {
+    headers: new Headers({ 'x-forwarded-for': '203.0.113.7', ...headers }),
+  };
+  return cf === undefined ? base : { ...base, cf };
+}
+
+describe('edge attribute normalization', () => {
+  it('normalizes asns', () => {
+    expect(normalizeAsn(13335)).toBe(13335);
+    expect(normalizeAsn(' 13335 ')).toBe(13335);
+    expect(normalizeAsn('AS13335')).toBe(13335);
+    expect(normalizeAsn('as4294967295')).toBe(4294967295);
+    expect(normalizeAsn(0)).toBeNull();
+    expect(normalizeAsn('4294967296')).toBeNull();
+    expect(normalizeAsn('13335x')).toBeNull();
+    expect(normalizeAsn(1.5)).toBeNull();
+    expect(normalizeAsn(null)).toBeNull();
+  });
+
+  it('normalizes country codes', () => {
+    expect(normalizeCountry('nl')).toBe('NL');
+    expect(normalizeCountry(' T1 ')).toBe('T1');
+    expect(normalizeCountry('XX')).toBeNull();
+    expect(normalizeCountry('NLD')).toBeNull();
+    expect(normalizeCountry('')).toBeNull();
+  });
+
+  it('extracts iata codes from edge location formats', () => {
+    expect(normalizeColo('ams')).toBe('AMS');
+    expect(normalizeColo('8a1b2c3d4e5f6789-AMS')).toBe('AMS');
+    expect(normalizeColo('IAD89-C1')).toBe('IAD');
+    expect(normalizeColo('fra1::iad1::abc12-1700000000000-0123')).toBe('FRA');
+    expect(normalizeColo('iad')).toBe('IAD');
+    expect(normalizeColo('AMST')).toBeNull();
+    expect(normalizeColo('8a1b2c3d4e5f6789')).toBeNull();
+  });
+
+  it('classifies bot management data', () => {
+    expect(classifyBot({ score: 1 })).toBe('automated');
+    expect(classifyBot({ score: 29 })).toBe('likely-automated');
+    expect(classifyBot({ score: 30 })).toBe('likely-human');
+    expect(classifyBot({ score: 1, verifiedBot: true })).toBe('verified');
+    expect(classifyBot({ score: 0 })).toBeNull();
+    expect(classifyBot({})).toBeNull();
+    expect(classifyBot(undefined)).toBeNull();
+  });
+});
+
+describe('fingerprint with edgeTraits', () => {
+  const cf: EdgeCfProperties = {
+    asn: 64500,
+    country: 'NL',
+    colo: 'AMS',
+    botManagement: { score: 12, verifiedBot: false },
+  };
+
+  it('ignores edge data unless opted in', () => {
+    const result = fingerprint(request({ 'cf-ipcountry': 'NL' }, cf));
+
+    expect(result.traits).toMatchObject({
+      asn: null,
+      country: null,
+      colo: null,
+      bot: null,
+    });
+  });
+
+  it('reads request.cf as traits without changing the key', () => {
+    const plain = fingerprint(request({}, cf));
+    const result = fingerprint(request({}, cf), {
+      edgeTraits: {
+        asn: 'trait',
+        country: 'trait',
+        colo: 'trait',
+        bot: 'trait',
+      },
+    });
+
+    expect(result.traits).toMatchObject({
+      asn: 64500,
+      country: 'NL',
+      colo: 'AMS',
+      bot: 'likely-automated',
+    });
+    expect(result.hash).toBe(plain.hash);
+  });
+
+  it('reads request.cf from a workers request', () => {
+    const workersRequest = Object.assign(
+      new Request('https://example.com/', {
+        headers: { 'x-forwarded-for': '203.0.113.7' },
+      }),
+      { cf }
+    );
+
+    const result = fingerprint(workersRequest, {
+      edgeTraits: { country: 'trait' },
+    });
+
+    expect(result.traits.country).toBe('NL');
+  });
+
+  it('falls back to edge headers', () => {
+    const result = fingerprint(
+      request({
+        'cloudfront-viewer-asn': '16509',
+        'cloudfront-viewer-country': 'de',
+        'x-amz-cf-pop': 'FRA56-P1',
+      }),
+      { edgeTraits: { asn: 'trait', country: 'trait', colo: 'trait' } }
+    );
+
+    expect(result.traits).toMatchObject({
+      asn: 16509,
+      country: 'DE',
+      colo: 'FRA',
+    });
+  });
+
+  it('prefers request.cf over headers and honours edgeHeaders', () => {
+    const result = fingerprint(
+      request(
+        { 'cf-ipcountry': 'US', 'x-geo-country': 'FR', 'cf-ray': 'abc-SJC' },
+        { country: 'XX' }
+      ),
+      {
+        edgeTraits: { country: 'trait', colo: 'trait' },
+        edgeHeaders: { country: ['x-geo-country'], colo: [] },
+      }
+    );
+
+    expect(result.traits.country).toBe('FR');
+    expect(result.traits.colo).toBeNull();
+  });
+
+  it('appends scoped attributes after the anchor', () => {
+    const result = fingerprint(
+      { ...request({}, cf), method: 'GET' },
+      {
+        edgeTraits: { country: 'scope', bot: 'scope', colo: 'scope' },
+        includeMethod: true,
+      }
+    );
+
+    expect(result.parts).toEqual([
+      'ip:203.0.113.7',
+      'country:NL',
+      'colo:AMS',
+      'bot:likely-automated',
+      'method:GET',
+    ]);
+  });
+
+  it('keeps unknown scoped attributes as empty segments', () => {
+    const result = fingerprint(request({}), {
+      edgeTraits: { country: 'scope' },
+    });
+
+    expect(result.parts).toEqual(['ip:203.0.113.7', 'country:']);
+  });
+
+  it('replaces the ip anchor with known anchored attributes', () => {
+    const result = fingerprint(request({}, cf), {
+      edgeTraits: { asn: 'anchor', country: 'anchor', colo: 'scope' },
+    });
+
+    expect(result.parts).toEqual(['asn:64500', 'country:NL', 'colo:AMS']);
+  });
+
+  it('keeps the ip anchor when no anchored attribute is known', () => {
+    const result = fingerprint(request({}), {
+      edgeTraits: { asn: 'anchor' },
+    });
+
+    expect(result.parts).toEqual(['ip:203.0.113.7']);
+  });
+
+  it('scopes an actor key with edge attributes', () => {
+    const result = fingerprint(request({}, cf), {
+      actorId: 'user-1',
+      edgeTraits: { asn: 'anchor', country: 'scope' },
+    });
+
+    expect(result.parts).toEqual(['actor:user-1', 'country:NL']);
+    expect(result.traits.asn).toBe(64500);
+  });
+});
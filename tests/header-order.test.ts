@@ -0,0 +1,197 @@
+import { describe, expect, it } from 'vitest';
+
+import { headerNames } from '../src/header-order';
+import { fingerprint, fnv1a64Hex } from '../src/index';
+
+const CHROME_RAW = [
+  'Host',
+  'example.com',
+  'Connection',
+  'keep-alive',
+  'sec-ch-ua',
+  '"Chromium";v="124"',
+  'User-Agent',
+  'Mozilla/5.0',
+  'Accept',
+  'text/html',
+  'Accept-Encoding',
+  'gzip, deflate, br',
+  'Accept-Language',
+  'en-US,en;q=0.9',
+];
+
+const CURL_RAW = [
+  'Host',
+  'example.com',
+  'User-Agent',
+  'curl/8.4.0',
+  'Accept',
+  '*/*',
+];
+
+describe('headerNames', () => {
+  it('lowercases names in the order they were sent', () => {
+    expect(headerNames(CURL_RAW, 'order', [])).toEqual([
+      'host',
+      'user-agent',
+      'accept',
+    ]);
+  });
+
+  it('sorts names for the set format', () => {
+    expect(headerNames(CURL_RAW, 'set', [])).toEqual([
+      'accept',
+      'host',
+      'user-agent',
+    ]);
+  });
+
+  it('keeps a repeated name at its first position', () => {
+    expect(
+      headerNames(
+        ['Accept', 'a', 'Cookie', 'x=1', 'Host', 'h', 'Cookie', 'y=2'],
+        'order',
+        []
+      )
+    ).toEqual(['accept', 'cookie', 'host']);
+  });
+
+  it('drops ignored names and prefixes', () => {
+    expect(
+      headerNames(
+        [
+          'Host',
+          'h',
+          'X-Forwarded-For',
+          '203.0.113.7',
+          'CF-Ray',
+          '8a-IAD',
+          'Cookie',
+          'x=1',
+          'Accept',
+          '*/*',
+        ],
+        'order',
+        undefined
+      )
+    ).toEqual(['host', 'accept']);
+    expect(headerNames(CURL_RAW, 'order', ['USER-AGENT', 'acc*'])).toEqual([
+      'host',
+    ]);
+  });
+
+  it('returns null without raw headers or usable names', () => {
+    expect(headerNames(undefined, 'order', [])).toBeNull();
+    expect(headerNames(['Cookie', 'x=1'], 'order', undefined)).toBeNull();
+  });
+
+  it('ignores a trailing name without a value', () => {
+    expect(headerNames(['Host', 'h', 'Accept'], 'order', [])).toEqual(['host']);
+  });
+
+  it('rejects malformed ignore entries', () => {
+    expect(() => headerNames(CURL_RAW, 'order', ['x-*-id'])).toThrow(
+      new TypeError('invalid headerOrderIgnore entry: x-*-id')
+    );
+    expect(() => headerNames(CURL_RAW, 'order', [' '])).toThrow(TypeError);
+  });
+});
+
+describe('fingerprint with includeHeaderOrder', () => {
+  function request(rawHeaders?: readonly string[]) {
+    return {
+      headers: new Headers({ 'x-forwarded-for': '203.0.113.7' }),
+      ...(rawHeaders === undefined ? {} : { rawHeaders }),
+    };
+  }
+
+  it('hashes the header order into a segment', () => {
+    const result = fingerprint(request(CURL_RAW), { includeHeaderOrder: true });
+    const expected = fnv1a64Hex(
+      new TextEncoder().encode('host,user-agent,accept')
+    );
+
+    expect(result.traits.headerOrder).toBe(expected);
+    expect(result.parts).toEqual(['ip:203.0.113.7', `headers:${expected}`]);
+  });
+
+  it('splits clients that send headers in a different order', () => {
+    const reordered = [
+      'User-Agent',
+      'curl/8.4.0',
+      'Host',
+      'example.com',
+      'Accept',
+      '*/*',
+    ];
+
+    const a = fingerprint(request(CURL_RAW), { includeHeaderOrder: true });
+    const b = fingerprint(request(reordered), { includeHeaderOrder: true });
+    const c = fingerprint(request(reordered), {
+      includeHeaderOrder: true,
+      headerOrderFormat: 'set',
+    });
+    const d = fingerprint(request(CURL_RAW), {
+      includeHeaderOrder: true,
+      headerOrderFormat: 'set',
+    });
+
+    expect(b.hash).not.toBe(a.hash);
+    expect(c.hash).toBe(d.hash);
+  });
+
+  it('is not affected by values or ignored headers', () => {
+    const a = fingerprint(request(CHROME_RAW), { includeHeaderOrder: true });
+    const b = fingerprint(
+      request([
+        'Cookie',
+        'session=1',
+        ...CHROME_RAW.map((v, i) => (i % 2 === 1 ? `${v}!` : v)),
+        'X-Forwarded-Proto',
+        'https',
+      ]),
+      { includeHeaderOrder: true }
+    );
+
+    expect(b.traits.headerOrder).toBe(a.traits.headerOrder);
+  });
+
+  it('uses an empty segment without raw headers', () => {
+    const result = fingerprint(request(), { includeHeaderOrder: true });
+
+    expect(result.traits.headerOrder).toBeNull();
+    expect(result.parts).toEqual(['ip:203.0.113.7', 'headers:']);
+  });
+
+  it('leaves the order out by default', () => {
+    const result = fingerprint(request(CURL_RAW));
+
+    expect(result.traits.headerOrder).toBeNull();
+    expect(result.parts).toEqual(['ip:203.0.113.7']);
+  });
+
+  it('follows the tls segment', () => {
+    const result = fingerprint(
+      {
+        ...request(CURL_RAW),
+        headers: new Headers({
+          'x-forwarded-for': '203.0.113.7',
+          'cf-ja4': 't13d1516h2_8daaf6152771_e5627efa2ab1',
+        }),
+        method: 'GET',
+      },
+      {
+        includeTlsFingerprint: true,
+        includeHeaderOrder: true,
+        includeMethod: true,
+      }
+    );
+
+    expect(result.parts.map((part) => part.split(':')[0])).toEqual([
+      'ip',
+      'tls',
+      'headers',
+      'method',
+    ]);
+  });
+});
@@ -1,6 +1,6 @@
 import { describe, expect, it } from 'vitest';
 
-import { fingerprint, fnv1a64Hex } from '../src/index';
+import { fingerprint, fingerprintHierarchy, fnv1a64Hex } from '../src/index';
 
 const encoder = new TextEncoder();
 
@@ -29,6 +29,20 @@ describe('fingerprint', () => {
     expect(result.traits).toEqual({
       actorId: null,
       ip: '203.0.113.10',
+      ipSource: 'header',
+      ipClass: 'documentation',
+      asn: null,
+      country: null,
+      colo: null,
+      bot: null,
+      userAgent: null,
+      clientHintBrands: null,
+      clientHintPlatform: null,
+      clientHintMobile: null,
+      acceptLanguage: null,
+      tlsFingerprint: null,
+      headerOrder: null,
+      plugins: {},
       method: 'POST',
       path: '/v1/resource',
     });
@@ -54,6 +68,87 @@ describe('fingerprint', () => {
     expect(result.parts[0]).toBe('ip:203.0.113.5');
   });
 
+  it('picks the client by trusted hop count instead of the left-most entry', () => {
+    const headers = new Headers();
+    headers.set('x-forwarded-for', '6.6.6.6, 203.0.113.10, 192.0.2.1');
+
+    const result = fingerprint(
+      { headers },
+      {
+        ipHeaders: ['x-forwarded-for'],
+        trustedHops: { 'x-forwarded-for': 2 },
+      }
+    );
+
+    expect(result.traits.ip).toBe('203.0.113.10');
+    expect(result.parts[0]).toBe('ip:203.0.113.10');
+  });
+
+  it('falls back to the socket peer address when no header yields an ip', () => {
+    const result = fingerprint({
+      headers: new Headers(),
+      remoteAddress: '::ffff:198.51.100.23',
+    });
+
+    expect(result.traits.ip).toBe('198.51.100.23');
+    expect(result.traits.ipSource).toBe('peer');
+    expect(result.parts[0]).toBe('ip:198.51.100.23');
+  });
+
+  it('reads forwarding headers only from a trusted peer when requireTrustedPeer is set', () => {
+    const headers = new Headers();
+    headers.set('x-forwarded-for', '203.0.113.10, 10.0.0.2');
+
+    const options = {
+      ipHeaders: ['x-forwarded-for'],
+      trustedProxies: ['10.0.0.0/8'],
+      requireTrustedPeer: true,
+    };
+
+    const viaProxy = fingerprint(
+      { headers, remoteAddress: '10.0.0.1' },
+      options
+    );
+    expect(viaProxy.traits.ip).toBe('203.0.113.10');
+    expect(viaProxy.traits.ipSource).toBe('header');
+
+    const direct = fingerprint(
+      { headers, remoteAddress: '198.51.100.23' },
+      options
+    );
+    expect(direct.traits.ip).toBe('198.51.100.23');
+    expect(direct.traits.ipSource).toBe('peer');
+
+    const unknownPeer = fingerprint({ headers }, options);
+    expect(unknownPeer.traits.ip).toBeNull();
+    expect(unknownPeer.traits.ipSource).toBeNull();
+  });
+
+  it('attaches an ip explanation only when explain is requested', () => {
+    const headers = new Headers();
+    headers.set('x-forwarded-for', 'unknown, 203.0.113.10');
+
+    const plain = fingerprint({ headers }, { ipHeaders: ['x-forwarded-for'] });
+    expect(plain.explain).toBeUndefined();
+
+    const explained = fingerprint(
+      { headers },
+      { ipHeaders: ['x-forwarded-for'], explain: true }
+    );
+    expect(explained.hash).toBe(plain.hash);
+    expect(explained.explain?.header).toBe('x-forwarded-for');
+    expect(explained.explain?.hop).toBe(1);
+    expect(explained.explain?.headers[0]!.candidates[0]!.reason).toBe(
+      'unknown-token'
+    );
+
+    const anchored = fingerprint(
+      { headers },
+      { actorId: 'user_123', explain: true }
+    );
+    expect(anchored.explain).toBeUndefined();
+  });
+
   it('parses Forwarded header with ipv6 and port', () => {
     const headers = new Headers();
     headers.set(
@@ -69,11 +164,39 @@ describe('fingerprint', () => {
     expect(result.traits).toEqual({
       actorId: null,
       ip: '2001:0db8:cafe:0000:0000:0000:0000:0017',
+      ipSource: 'header',
+      ipClass: 'documentation',
+      asn: null,
+      country: null,
+      colo: null,
+      bot: null,
+      userAgent: null,
+      clientHintBrands: null,
+      clientHintPlatform: null,
+      clientHintMobile: null,
+      acceptLanguage: null,
+      tlsFingerprint: null,
+      headerOrder: null,
+      plugins: {},
       method: null,
       path: null,
     });
   });
 
+  it('buckets ipv4 clients by ipv4Subnet', () => {
+    const a = new Headers({ 'x-forwarded-for': '198.51.100.7' });
+    const b = new Headers({ 'x-forwarded-for': '198.51.100.250' });
+
+    const first = fingerprint({ headers: a }, { ipv4Subnet: 24 });
+    const second = fingerprint({ headers: b }, { ipv4Subnet: 24 });
+
+    expect(first.traits.ip).toBe('198.51.100.0');
+    expect(first.hash).toBe(second.hash);
+    expect(fingerprint({ headers: a }).hash).not.toBe(
+      fingerprint({ headers: b }).hash
+    );
+  });
+
   it('ignores unknown Forwarded identifiers', () => {
     const headers = new Headers();
     headers.set('Forwarded', 'for=unknown');
@@ -121,6 +244,20 @@ describe('fingerprint', () => {
     expect(result.traits).toEqual({
       actorId: 'user_123',
       ip: null,
+      ipSource: null,
+      ipClass: null,
+      asn: null,
+      country: null,
+      colo: null,
+      bot: null,
+      userAgent: null,
+      clientHintBrands: null,
+      clientHintPlatform: null,
+      clientHintMobile: null,
+      acceptLanguage: null,
+      tlsFingerprint: null,
+      headerOrder: null,
+      plugins: {},
       method: 'POST',
       path: '/v1/resource',
     });
@@ -163,6 +300,20 @@ describe('fingerprint', () => {
     expect(result.traits).toEqual({
       actorId: 'user_123',
       ip: null,
+      ipSource: null,
+      ipClass: null,
+      asn: null,
+      country: null,
+      colo: null,
+      bot: null,
+      userAgent: null,
+      clientHintBrands: null,
+      clientHintPlatform: null,
+      clientHintMobile: null,
+      acceptLanguage: null,
+      tlsFingerprint: null,
+      headerOrder: null,
+      plugins: {},
       method: null,
       path: null,
     });
@@ -193,6 +344,20 @@ describe('fingerprint', () => {
     expect(result.traits).toEqual({
       actorId: null,
       ip: '203.0.113.10',
+      ipSource: 'header',
+      ipClass: 'documentation',
+      asn: null,
+      country: null,
+      colo: null,
+      bot: null,
+      userAgent: null,
+      clientHintBrands: null,
+      clientHintPlatform: null,
+      clientHintMobile: null,
+      acceptLanguage: null,
+      tlsFingerprint: null,
+      headerOrder: null,
+      plugins: {},
       method: null,
       path: null,
     });
@@ -236,6 +401,20 @@ describe('fingerprint', () => {
     expect(result.traits).toEqual({
       actorId: null,
       ip: null,
+      ipSource: null,
+      ipClass: null,
+      asn: null,
+      country: null,
+      colo: null,
+      bot: null,
+      userAgent: null,
+      clientHintBrands: null,
+      clientHintPlatform: null,
+      clientHintMobile: null,
+      acceptLanguage: null,
+      tlsFingerprint: null,
+      headerOrder: null,
+      plugins: {},
       method: 'POST',
       path: '/v1/resource',
     });
@@ -245,4 +424,261 @@ describe('fingerprint', () => {
       fnv1a64Hex(encoder.encode(result.parts.join('|')))
     );
   });
+
+  it('reports the ip class and buckets non-public clients by class', () => {
+    const loopback = fingerprint(
+      { headers: new Headers({ 'x-forwarded-for': '127.0.0.1' }) },
+      { nonPublicIps: 'bucket' }
+    );
+    const otherLoopback = fingerprint(
+      { headers: new Headers({ 'x-forwarded-for': '127.0.0.2' }) },
+      { nonPublicIps: 'bucket' }
+    );
+    const publicClient = fingerprint(
+      { headers: new Headers({ 'x-forwarded-for': '8.8.8.8' }) },
+      { nonPublicIps: 'bucket' }
+    );
+
+    expect(loopback.traits.ip).toBe('127.0.0.1');
+    expect(loopback.traits.ipClass).toBe('loopback');
+    expect(loopback.parts).toEqual(['ip:special:loopback']);
+    expect(loopback.hash).toBe(otherLoopback.hash);
+
+    expect(publicClient.traits.ipClass).toBe('public');
+    expect(publicClient.parts).toEqual(['ip:8.8.8.8']);
+  });
+
+  it('formats traits.ip without changing parts or hash', () => {
+    const headers = new Headers({ 'x-forwarded-for': '2001:db8:12:34ff::1' });
+
+    const full = fingerprint({ headers });
+    const compressed = fingerprint({ headers }, { ipFormat: 'compressed' });
+    const cidr = fingerprint({ headers }, { ipFormat: 'cidr' });
+
+    expect(full.traits.ip).toBe('2001:0db8:0012:3400:0000:0000:0000:0000');
+    expect(compressed.traits.ip).toBe('2001:db8:12:3400::');
+    expect(cidr.traits.ip).toBe('2001:db8:12:3400::/56');
+
+    expect(compressed.parts).toEqual(full.parts);
+    expect(cidr.parts).toEqual(full.parts);
+    expect(cidr.hash).toBe(full.hash);
+  });
+
+  it('reports an allow/deny verdict only when a list is configured', () => {
+    const headers = new Headers({ 'x-forwarded-for': '10.20.0.5' });
+
+    expect(fingerprint({ headers }).verdict).toBeUndefined();
+
+    const exempt = fingerprint({ headers }, { allowList: ['10.0.0.0/8'] });
+    expect(exempt.verdict).toBe('exempt');
+    expect(exempt.matchedRange).toBe('10.0.0.0/8');
+    expect(exempt.hash).toBe(fingerprint({ headers }).hash);
+
+    const denied = fingerprint(
+      { headers },
+      { allowList: ['10.0.0.0/8'], denyList: ['10.20.0.0/16'] }
+    );
+    expect(denied.verdict).toBe('deny');
+    expect(denied.matchedRange).toBe('10.20.0.0/16');
+
+    const normal = fingerprint({ headers }, { denyList: ['192.0.2.0/24'] });
+    expect(normal.verdict).toBe('normal');
+    expect(normal.matchedRange).toBeNull();
+  });
+
+  it('applies the deny list when actorId anchors identity', () => {
+    const headers = new Headers({ 'x-forwarded-for': '192.0.2.9' });
+    const result = fingerprint(
+      { headers },
+      { actorId: 'user_1', denyList: ['192.0.2.0/24'] }
+    );
+
+    expect(result.traits.ip).toBeNull();
+    expect(result.verdict).toBe('deny');
+  });
+
+  it('reports the overridden prefix length in cidr traits', () => {
+    const headers = new Headers({ 'x-forwarded-for': '2001:db8:1:2:3::1' });
+
+    const result = fingerprint(
+      { headers },
+      { ipFormat: 'cidr', subnetOverrides: { '2001:db8::/32': 64 } }
+    );
+
+    expect(result.traits.ip).toBe('2001:db8:1:2::/64');
+    expect(result.parts).toEqual([
+      'ip:2001:0db8:0001:0002:0000:0000:0000:0000',
+    ]);
+  });
+
+  it('does not apply ipv6 override lengths to ipv4 clients', () => {
+    const headers = new Headers({ 'x-forwarded-for': '203.0.113.7' });
+
+    const result = fingerprint(
+      { headers },
+      { ipv4Subnet: 24, ipFormat: 'cidr', subnetOverrides: { '::/0': 64 } }
+    );
+
+    expect(result.traits.ip).toBe('203.0.113.0/24');
+    expect(result.parts).toEqual(['ip:203.0.113.0']);
+  });
+});
+
+describe('fingerprintHierarchy', () => {
+  const levels = { ipv6: [128, 64, 48], ipv4: [32, 24] };
+
+  it('returns one result per ipv6 level with a level part', () => {
+    const headers = new Headers({
+      'x-forwarded-for': '2001:db8:abcd:1234:5678::1',
+    });
+
+    const results = fingerprintHierarchy({ headers, method: 'GET' }, levels, {
+      includeMethod: true,
+    });
+
+    expect(results.map((r) => r.parts)).toEqual([
+      [
+        'ip:2001:0db8:abcd:1234:5678:0000:0000:0001',
+        'level:ipv6/128',
+        'method:GET',
+      ],
+      [
+        'ip:2001:0db8:abcd:1234:0000:0000:0000:0000',
+        'level:ipv6/64',
+        'method:GET',
+      ],
+      [
+        'ip:2001:0db8:abcd:0000:0000:0000:0000:0000',
+        'level:ipv6/48',
+        'method:GET',
+      ],
+    ]);
+    expect(new Set(results.map((r) => r.hash)).size).toBe(3);
+  });
+
+  it('uses the ipv4 levels for ipv4 and unwrapped clients', () => {
+    const headers = new Headers({ 'x-forwarded-for': '::ffff:198.51.100.77' });
+
+    const results = fingerprintHierarchy({ headers }, levels, {
+      ipFormat: 'cidr',
+    });
+
+    expect(results.map((r) => r.traits.ip)).toEqual([
+      '198.51.100.77/32',
+      '198.51.100.0/24',
+    ]);
+    expect(results[1]!.parts).toEqual(['ip:198.51.100.0', 'level:ipv4/24']);
+  });
+
+  it('falls back to the plain fingerprint without levels for the family', () => {
+    const headers = new Headers({ 'x-forwarded-for': '198.51.100.77' });
+
+    expect(fingerprintHierarchy({ headers }, { ipv6: [64] })).toEqual([
+      fingerprint({ headers }),
+    ]);
+    expect(
+      fingerprintHierarchy({ headers }, levels, { actorId: 'user_1' })
+    ).toEqual([fingerprint({ headers }, { actorId: 'user_1' })]);
+  });
+
+  it('throws for invalid levels', () => {
+    const headers = new Headers();
+    expect(() => fingerprintHierarchy({ headers }, { ipv4: [33] })).toThrow(
+      RangeError
+    );
+    expect(() => fingerprintHierarchy({ headers }, { ipv6: [0] })).toThrow(
+      RangeError
+    );
+  });
+});
+
+describe('fingerprint ip presets', () => {
+  it('prefers cf-connecting-ipv6 over a pseudo ipv4 on cloudflare', () => {
+    const headers = new Headers();
+    headers.set('cf-connecting-ip', '240.16.0.1');
+    headers.set('cf-connecting-ipv6', '2001:db8:abcd:12ff::1');
+
+    const result = fingerprint(
+      { headers },
+      { preset: 'cloudflare-pseudo-ipv4' }
+    );
+    expect(result.traits.ip).toBe('2001:0db8:abcd:1200:0000:0000:0000:0000');
+  });
+
+  it('ignores cf-connecting-ipv6 without pseudo ipv4 on cloudflare', () => {
+    const headers = new Headers();
+    headers.set('cf-connecting-ip', '203.0.113.10');
+    headers.set('cf-connecting-ipv6', '2001:db8::1');
+
+    const result = fingerprint({ headers }, { preset: 'cloudflare' });
+    expect(result.traits.ip).toBe('203.0.113.10');
+  });
+
+  it('reads only the appended x-forwarded-for hop on akamai', () => {
+    const headers = new Headers();
+    headers.set('true-client-ip', '1.2.3.4');
+    headers.set('x-forwarded-for', '6.6.6.6, 203.0.113.9');
+
+    expect(fingerprint({ headers }, { preset: 'akamai' }).traits.ip).toBe(
+      '203.0.113.9'
+    );
+    expect(
+      fingerprint({ headers }, { preset: 'akamai-true-client-ip' }).traits.ip
+    ).toBe('1.2.3.4');
+  });
+
+  it('reads x-vercel-forwarded-for first on vercel', () => {
+    const headers = new Headers();
+    headers.set('x-forwarded-for', '198.51.100.2');
+    headers.set('x-vercel-forwarded-for', '203.0.113.10');
+
+    const result = fingerprint({ headers }, { preset: 'vercel' });
+    expect(result.traits.ip).toBe('203.0.113.10');
+  });
+
+  it('strips the port from an unbracketed ipv6 cloudfront-viewer-address', () => {
+    const headers = new Headers();
+    headers.set(
+      'cloudfront-viewer-address',
+      '2001:0db8:85a3:0000:0000:8a2e:0370:7334:46532'
+    );
+
+    const result = fingerprint(
+      { headers },
+      { preset: 'aws-cloudfront', ipv6Subnet: 128 }
+    );
+    expect(result.traits.ip).toBe('2001:0db8:85a3:0000:0000:8a2e:0370:7334');
+  });
+
+  it('counts two hops from the right on google cloud load balancing', () => {
+    const headers = new Headers();
+    headers.set('x-forwarded-for', '6.6.6.6, 203.0.113.10, 34.120.0.1');
+
+    const result = fingerprint({ headers }, { preset: 'gcp' });
+    expect(result.traits.ip).toBe('203.0.113.10');
+  });
+
+  it('lets explicit ipHeaders and trustedHops override the preset', () => {
+    const headers = new Headers();
+    headers.set('x-forwarded-for', '6.6.6.6, 203.0.113.10, 10.0.0.1');
+    headers.set('x-azure-clientip', '198.51.100.2');
+
+    const result = fingerprint(
+      { headers },
+      {
+        preset: 'azure',
+        ipHeaders: ['x-forwarded-for'],
+        trustedHops: { 'x-forwarded-for': 2 },
+      }
+    );
+    expect(result.traits.ip).toBe('203.0.113.10');
+  });
+
+  it('throws for unknown preset names', () => {
+    const headers = new Headers();
+
+    expect(() =>
+      fingerprint({ headers }, { preset: 'nope' as 'cloudflare' })
+    ).toThrow(TypeError);
+  });
 });
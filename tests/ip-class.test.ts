@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+
+import { classifyIp } from '../src/ip-class';
+
+describe('classifyIp', () => {
+  it('classifies ipv4 special-purpose blocks', () => {
+    expect(classifyIp('0.0.0.0')).toBe('unspecified');
+    expect(classifyIp('10.1.2.3')).toBe('private');
+    expect(classifyIp('172.31.255.255')).toBe('private');
+    expect(classifyIp('192.168.0.1')).toBe('private');
+    expect(classifyIp('100.64.0.1')).toBe('shared');
+    expect(classifyIp('100.127.255.255')).toBe('shared');
+    expect(classifyIp('127.0.0.1')).toBe('loopback');
+    expect(classifyIp('169.254.169.254')).toBe('linklocal');
+    expect(classifyIp('192.0.2.1')).toBe('documentation');
+    expect(classifyIp('198.51.100.1')).toBe('documentation');
+    expect(classifyIp('203.0.113.1')).toBe('documentation');
+    expect(classifyIp('198.19.0.1')).toBe('benchmarking');
+    expect(classifyIp('224.0.0.251')).toBe('multicast');
+    expect(classifyIp('255.255.255.255')).toBe('broadcast');
+    expect(classifyIp('240.0.0.1')).toBe('reserved');
+    expect(classifyIp('192.0.0.8')).toBe('reserved');
+  });
+
+  it('classifies routable ipv4 and globally reachable carve-outs as public', () => {
+    expect(classifyIp('8.8.8.8')).toBe('public');
+    expect(classifyIp('100.128.0.1')).toBe('public');
+    expect(classifyIp('172.32.0.1')).toBe('public');
+    expect(classifyIp('192.0.0.9')).toBe('public');
+  });
+
+  it('classifies ipv6 special-purpose blocks', () => {
+    expect(classifyIp('::')).toBe('unspecified');
+    expect(classifyIp('::1')).toBe('loopback');
+    expect(classifyIp('fe80::1%eth0')).toBe('linklocal');
+    expect(classifyIp('fd12:3456::1')).toBe('uniquelocal');
+    expect(classifyIp('2001:db8::1')).toBe('documentation');
+    expect(classifyIp('3fff::1')).toBe('documentation');
+    expect(classifyIp('2001:2::1')).toBe('benchmarking');
+    expect(classifyIp('ff02::1')).toBe('multicast');
+    expect(classifyIp('64:ff9b:1::1')).toBe('private');
+    expect(classifyIp('100::1')).toBe('reserved');
+    expect(classifyIp('2001:100::1')).toBe('reserved');
+    expect(classifyIp('fec0::1')).toBe('reserved');
+    expect(classifyIp('4000::1')).toBe('reserved');
+  });
+
+  it('classifies global unicast ipv6 as public', () => {
+    expect(classifyIp('2606:4700::1111')).toBe('public');
+    expect(classifyIp('64:ff9b::808:808')).toBe('public');
+    expect(classifyIp('2002:c000:204::1')).toBe('public');
+    expect(classifyIp('2001:0:4136:e378::1')).toBe('public');
+  });
+
+  it('classifies ipv4-mapped ipv6 as the embedded ipv4 address', () => {
+    expect(classifyIp('::ffff:127.0.0.1')).toBe('loopback');
+    expect(classifyIp('::ffff:8.8.8.8')).toBe('public');
+  });
+
+  it('returns null for non-ip input', () => {
+    expect(classifyIp('unknown')).toBeNull();
+    expect(classifyIp('10.0.0')).toBeNull();
+  });
+});
@@ -1,6 +1,6 @@
 import { describe, expect, it } from 'vitest';
 
-import { extractClientIp } from '../src/ip-extraction';
+import { explainClientIp, extractClientIp } from '../src/ip-extraction';
 
 describe('extractClientIp', () => {
   it('returns null when none of the precedence headers exist', () => {
@@ -195,4 +195,467 @@ describe('extractClientIp', () => {
 
     expect(extractClientIp(headers, ['x-real-ip'])).toBeNull();
   });
+
+  describe('trustedHops', () => {
+    it('counts X-Forwarded-For entries from the right', () => {
+      const headers = new Headers();
+      headers.set(
+        'x-forwarded-for',
+        '10.0.0.1, 203.0.113.10, 198.51.100.2, 192.0.2.1'
+      );
+
+      expect(
+        extractClientIp(headers, ['x-forwarded-for'], {
+          trustedHops: { 'x-forwarded-for': 1 },
+        })
+      ).toBe('192.0.2.1');
+      expect(
+        extractClientIp(headers, ['x-forwarded-for'], {
+          trustedHops: { 'x-forwarded-for': 3 },
+        })
+      ).toBe('203.0.113.10');
+    });
+
+    it('counts Forwarded elements from the right, including elements without for=', () => {
+      const headers = new Headers();
+      headers.set(
+        'forwarded',
+        'for=198.51.100.7, for="[2001:db8::1]:4711";proto=https, by=203.0.113.43'
+      );
+
+      expect(
+        extractClientIp(headers, ['forwarded'], {
+          trustedHops: { forwarded: 2 },
+        })
+      ).toBe('2001:db8::1');
+      expect(
+        extractClientIp(headers, ['forwarded'], {
+          trustedHops: { forwarded: 1 },
+        })
+      ).toBeNull();
+    });
+
+    it('yields nothing for a chain shorter than the hop count and falls through', () => {
+      const headers = new Headers();
+      headers.set('x-forwarded-for', '203.0.113.10');
+      headers.set('x-real-ip', '198.51.100.9');
+
+      expect(
+        extractClientIp(headers, ['x-forwarded-for', 'x-real-ip'], {
+          trustedHops: { 'x-forwarded-for': 2 },
+        })
+      ).toBe('198.51.100.9');
+    });
+
+    it('never slides left past an invalid entry at the trusted position', () => {
+      const headers = new Headers();
+      headers.set('x-forwarded-for', '203.0.113.10, unknown, 192.0.2.1');
+
+      expect(
+        extractClientIp(headers, ['x-forwarded-for'], {
+          trustedHops: { 'x-forwarded-for': 2 },
+        })
+      ).toBeNull();
+    });
+
+    it('matches header names case-insensitively', () => {
+      const headers = new Headers();
+      headers.set('x-forwarded-for', '203.0.113.10, 192.0.2.1');
+
+      expect(
+        extractClientIp(headers, ['X-Forwarded-For'], {
+          trustedHops: { 'X-FORWARDED-FOR': 1 },
+        })
+      ).toBe('192.0.2.1');
+    });
+
+    it('throws for hop counts that are not positive integers', () => {
+      const headers = new Headers();
+
+      expect(() =>
+        extractClientIp(headers, ['x-forwarded-for'], {
+          trustedHops: { 'x-forwarded-for': 0 },
+        })
+      ).toThrow(RangeError);
+      expect(() =>
+        extractClientIp(headers, ['x-forwarded-for'], {
+          trustedHops: { 'x-forwarded-for': 1.5 },
+        })
+      ).toThrow(RangeError);
+    });
+  });
+
+  describe('trustedProxies', () => {
+    it('walks X-Forwarded-For from the right, skipping trusted ranges', () => {
+      const headers = new Headers();
+      headers.set(
+        'x-forwarded-for',
+        '6.6.6.6, 203.0.113.10, 198.51.100.2, 10.1.2.3'
+      );
+
+      expect(
+        extractClientIp(headers, ['x-forwarded-for'], {
+          trustedProxies: ['198.51.100.0/24', 'uniquelocal'],
+        })
+      ).toBe('203.0.113.10');
+    });
+
+    it('walks Forwarded elements and matches ipv6 ranges', () => {
+      const headers = new Headers();
+      headers.set(
+        'forwarded',
+        'for=203.0.113.10, for="[2001:db8:1::5]:443", for="[::1]"'
+      );
+
+      expect(
+        extractClientIp(headers, ['forwarded'], {
+          trustedProxies: ['2001:db8:1::/48', 'loopback'],
+        })
+      ).toBe('203.0.113.10');
+    });
+
+    it('returns the left-most entry when every hop is trusted', () => {
+      const headers = new Headers();
+      headers.set('x-forwarded-for', '10.0.0.7, 10.0.0.1');
+
+      expect(
+        extractClientIp(headers, ['x-forwarded-for'], {
+          trustedProxies: ['10.0.0.0/8'],
+        })
+      ).toBe('10.0.0.7');
+    });
+
+    it('stops at an entry that is not an ip literal and falls through', () => {
+      const headers = new Headers();
+      headers.set('x-forwarded-for', '203.0.113.10, unknown, 10.0.0.1');
+      headers.set('x-real-ip', '198.51.100.9');
+
+      expect(
+        extractClientIp(headers, ['x-forwarded-for', 'x-real-ip'], {
+          trustedProxies: ['10.0.0.0/8'],
+        })
+      ).toBe('198.51.100.9');
+    });
+
+    it('matches ipv4 ranges against ipv4-mapped ipv6 entries and bare addresses', () => {
+      const headers = new Headers();
+      headers.set(
+        'x-forwarded-for',
+        '203.0.113.10, ::ffff:192.0.2.7, 192.0.2.200'
+      );
+
+      expect(
+        extractClientIp(headers, ['x-forwarded-for'], {
+          trustedProxies: ['192.0.2.0/25', '192.0.2.200'],
+        })
+      ).toBe('203.0.113.10');
+    });
+
+    it('does not trust ipv4 hops through ipv6 ranges', () => {
+      const headers = new Headers();
+      headers.set('x-forwarded-for', '6.6.6.6, 203.0.113.10');
+
+      expect(
+        extractClientIp(headers, ['x-forwarded-for'], {
+          trustedProxies: ['2000::/3', '::/0'],
+        })
+      ).toBe('203.0.113.10');
+      expect(
+        extractClientIp(headers, ['x-forwarded-for'], {
+          trustedProxies: ['::ffff:203.0.113.0/120'],
+        })
+      ).toBe('6.6.6.6');
+    });
+
+    it('lets a header hop count win over the proxy list', () => {
+      const headers = new Headers();
+      headers.set('x-forwarded-for', '203.0.113.10, 198.51.100.2, 10.0.0.1');
+
+      expect(
+        extractClientIp(headers, ['x-forwarded-for'], {
+          trustedHops: { 'x-forwarded-for': 1 },
+          trustedProxies: ['10.0.0.0/8'],
+        })
+      ).toBe('10.0.0.1');
+    });
+
+    it('throws for entries that are not keywords, addresses or ranges', () => {
+      const headers = new Headers();
+
+      expect(() =>
+        extractClientIp(headers, ['x-forwarded-for'], {
+          trustedProxies: ['intranet'],
+        })
+      ).toThrow(TypeError);
+      expect(() =>
+        extractClientIp(headers, ['x-forwarded-for'], {
+          trustedProxies: ['10.0.0.0/33'],
+        })
+      ).toThrow(TypeError);
+    });
+  });
+});
+
+describe('nonPublicIps', () => {
+  it('accepts special-purpose addresses by default', () => {
+    const headers = new Headers();
+    headers.set('x-forwarded-for', '127.0.0.1, 8.8.8.8');
+
+    expect(extractClientIp(headers, ['x-forwarded-for'])).toBe('127.0.0.1');
+  });
+
+  it('skips non-public left-most entries', () => {
+    const headers = new Headers();
+    headers.set('x-forwarded-for', '127.0.0.1, 100.64.0.7, 8.8.8.8');
+
+    expect(
+      extractClientIp(headers, ['x-forwarded-for'], { nonPublicIps: 'skip' })
+    ).toBe('8.8.8.8');
+  });
+
+  it('falls through to the next header when a trusted hop is non-public', () => {
+    const headers = new Headers();
+    headers.set('x-forwarded-for', '8.8.8.8, 10.0.0.5, 34.1.2.3');
+    headers.set('x-real-ip', '1.1.1.1');
+
+    expect(
+      extractClientIp(headers, ['x-forwarded-for', 'x-real-ip'], {
+        trustedHops: { 'x-forwarded-for': 2 },
+        nonPublicIps: 'skip',
+      })
+    ).toBe('1.1.1.1');
+  });
+
+  it('skips trusted proxies before applying the policy', () => {
+    const headers = new Headers();
+    headers.set('x-forwarded-for', '8.8.8.8, 10.0.0.1, 10.0.0.2');
+
+    expect(
+      extractClientIp(headers, ['x-forwarded-for'], {
+        trustedProxies: ['10.0.0.0/8'],
+        nonPublicIps: 'skip',
+      })
+    ).toBe('8.8.8.8');
+
+    headers.set('x-forwarded-for', '8.8.8.8, 192.168.1.9, 10.0.0.2');
+    expect(
+      extractClientIp(headers, ['x-forwarded-for'], {
+        trustedProxies: ['10.0.0.0/8'],
+        nonPublicIps: 'skip',
+      })
+    ).toBeNull();
+  });
+
+  it('reports skipped candidates with reason non-public', () => {
+    const headers = new Headers();
+    headers.set('x-forwarded-for', '192.168.1.1, 8.8.8.8');
+
+    const result = explainClientIp(headers, ['x-forwarded-for'], {
+      nonPublicIps: 'skip',
+    });
+
+    expect(result.ip).toBe('8.8.8.8');
+    expect(result.headers[0]!.candidates[0]).toEqual({
+      hop: 0,
+      value: '192.168.1.1',
+      ip: null,
+      outcome: 'rejected',
+      reason: 'non-public',
+    });
+  });
+
+  it('never skips the peer address', () => {
+    const headers = new Headers();
+    headers.set('x-forwarded-for', '127.0.0.1');
+
+    const result = explainClientIp(
+      headers,
+      ['x-forwarded-for'],
+      { nonPublicIps: 'skip' },
+      '10.0.0.3'
+    );
+
+    expect(result.ip).toBe('10.0.0.3');
+    expect(result.source).toBe('peer');
+  });
+});
+
+describe('ipHeaderParsers', () => {
+  it('reuses a built-in parser under another header name', () => {
+    const headers = new Headers();
+    headers.set('x-original-forwarded-for', '6.6.6.6, 203.0.113.10, 10.0.0.1');
+
+    expect(
+      extractClientIp(headers, ['x-original-forwarded-for'], {
+        ipHeaderParsers: { 'X-Original-Forwarded-For': 'x-forwarded-for' },
+        trustedHops: { 'x-original-forwarded-for': 2 },
+      })
+    ).toBe('203.0.113.10');
+  });
+
+  it('runs custom parsers and still validates their output as ip literals', () => {
+    const headers = new Headers();
+    headers.set('x-client', 'client=203.0.113.10; edge=pop-ams');
+    headers.set('x-labels', 'client=not-an-ip');
+
+    const parseLabels = (value: string): readonly (string | null)[] => [
+      /client=([^;]+)/.exec(value)?.[1] ?? null,
+    ];
+
+    expect(
+      extractClientIp(headers, ['x-client'], {
+        ipHeaderParsers: { 'x-client': parseLabels },
+      })
+    ).toBe('203.0.113.10');
+    expect(
+      extractClientIp(headers, ['x-labels'], {
+        ipHeaderParsers: { 'x-labels': parseLabels },
+      })
+    ).toBeNull();
+  });
+
+  it('can turn a default list parser off for a header', () => {
+    const headers = new Headers();
+    headers.set('x-forwarded-for', '203.0.113.10, 198.51.100.2');
+
+    expect(
+      extractClientIp(headers, ['x-forwarded-for'], {
+        ipHeaderParsers: { 'x-forwarded-for': 'single' },
+      })
+    ).toBeNull();
+  });
+
+  it('throws for unknown built-in parser names', () => {
+    expect(() =>
+      extractClientIp(new Headers(), ['x-client'], {
+        ipHeaderParsers: { 'x-client': 'csv' as 'single' },
+      })
+    ).toThrow(TypeError);
+  });
+});
+
+describe('explainClientIp', () => {
+  it('reports each checked header and why every candidate was rejected', () => {
+    const headers = new Headers();
+    headers.set(
+      'forwarded',
+      'for=unknown, for="_gazonk", for="[2001:db8::1]:99999", for=hidden'
+    );
+    headers.set('x-forwarded-for', 'garbage, 203.0.113.10, 198.51.100.9');
+
+    const result = explainClientIp(headers, [
+      'cf-connecting-ip',
+      'forwarded',
+      'x-forwarded-for',
+      'x-real-ip',
+    ]);
+
+    expect(result.ip).toBe('203.0.113.10');
+    expect(result.source).toBe('header');
+    expect(result.header).toBe('x-forwarded-for');
+    expect(result.hop).toBe(1);
+
+    expect(result.headers.map((h) => [h.header, h.outcome])).toEqual([
+      ['cf-connecting-ip', 'absent'],
+      ['forwarded', 'no-valid-ip'],
+      ['x-forwarded-for', 'selected'],
+    ]);
+
+    expect(result.headers[1]!.candidates.map((c) => c.reason)).toEqual([
+      'unknown-token',
+      'obfuscated',
+      'invalid-port',
+      'invalid-literal',
+    ]);
+
+    expect(result.headers[2]!.candidates).toEqual([
+      {
+        hop: 0,
+        value: 'garbage',
+        ip: null,
+        outcome: 'rejected',
+        reason: 'invalid-literal',
+      },
+      {
+        hop: 1,
+        value: '203.0.113.10',
+        ip: '203.0.113.10',
+        outcome: 'selected',
+        reason: null,
+      },
+      {
+        hop: 2,
+        value: '198.51.100.9',
+        ip: null,
+        outcome: 'not-consulted',
+        reason: null,
+      },
+    ]);
+  });
+
+  it('explains trusted hop and trusted proxy selection', () => {
+    const headers = new Headers();
+    headers.set('x-forwarded-for', '6.6.6.6, 203.0.113.10, 10.0.0.1');
+
+    const byHops = explainClientIp(headers, ['x-forwarded-for'], {
+      trustedHops: { 'x-forwarded-for': 2 },
+    });
+    expect(byHops.headers[0]!.strategy).toBe('trusted-hops');
+    expect(byHops.headers[0]!.candidates.map((c) => c.outcome)).toEqual([
+      'not-consulted',
+      'selected',
+      'skipped',
+    ]);
+    expect(byHops.headers[0]!.candidates[2]!.reason).toBe('trusted-hop');
+
+    const byProxies = explainClientIp(headers, ['x-forwarded-for'], {
+      trustedProxies: ['10.0.0.0/8'],
+    });
+    expect(byProxies.headers[0]!.strategy).toBe('trusted-proxies');
+    expect(byProxies.headers[0]!.candidates[2]!.reason).toBe('trusted-proxy');
+    expect(byProxies.hop).toBe(1);
+
+    const tooShort = explainClientIp(headers, ['x-forwarded-for'], {
+      trustedHops: { 'x-forwarded-for': 4 },
+    });
+    expect(tooShort.ip).toBeNull();
+    expect(tooShort.headers[0]!.outcome).toBe('chain-too-short');
+  });
+
+  it('does not trust an ipv4 peer through ipv6 ranges', () => {
+    const headers = new Headers();
+    headers.set('x-forwarded-for', '6.6.6.6');
+
+    const result = explainClientIp(
+      headers,
+      ['x-forwarded-for'],
+      { trustedProxies: ['2000::/3', '::/0'], requireTrustedPeer: true },
+      '203.0.113.9'
+    );
+
+    expect(result.ip).toBe('203.0.113.9');
+    expect(result.peerTrusted).toBe(false);
+  });
+
+  it('reports an untrusted peer and skips headers entirely', () => {
+    const headers = new Headers();
+    headers.set('x-forwarded-for', '203.0.113.10');
+
+    const result = explainClientIp(
+      headers,
+      ['x-forwarded-for'],
+      { trustedProxies: ['10.0.0.0/8'], requireTrustedPeer: true },
+      '198.51.100.23'
+    );
+
+    expect(result).toEqual({
+      ip: '198.51.100.23',
+      source: 'peer',
+      header: null,
+      hop: null,
+      peer: '198.51.100.23',
+      peerTrusted: false,
+      headers: [],
+    });
+  });
 });
@@ -0,0 +1,106 @@
+import { describe, expect, it } from 'vitest';
+
+import { ipToBytes, parseCidr } from '../src/ip-cidr';
+import { checkIpLists } from '../src/ip-lists';
+import {
+  createPrefixTrie,
+  insertPrefix,
+  longestPrefixMatch,
+} from '../src/ip-trie';
+
+function range(cidr: string) {
+  const parsed = parseCidr(cidr);
+  if (parsed === null) throw new Error(`bad cidr: ${cidr}`);
+  return parsed;
+}
+
+function bytes(ip: string) {
+  const parsed = ipToBytes(ip);
+  if (parsed === null) throw new Error(`bad ip: ${ip}`);
+  return parsed;
+}
+
+describe('prefix trie', () => {
+  it('returns the longest matching prefix across both families', () => {
+    const trie = createPrefixTrie<string>();
+    insertPrefix(trie, range('10.0.0.0/8'), 'a');
+    insertPrefix(trie, range('10.1.0.0/16'), 'b');
+    insertPrefix(trie, range('2001:db8::/32'), 'c');
+    insertPrefix(trie, range('2001:db8:1::/48'), 'd');
+
+    expect(longestPrefixMatch(trie, bytes('10.2.3.4'))?.value).toBe('a');
+    expect(longestPrefixMatch(trie, bytes('10.1.3.4'))?.value).toBe('b');
+    expect(longestPrefixMatch(trie, bytes('2001:db8:2::1'))?.value).toBe('c');
+    expect(longestPrefixMatch(trie, bytes('2001:db8:1::1'))?.value).toBe('d');
+    expect(longestPrefixMatch(trie, bytes('11.0.0.1'))).toBeNull();
+  });
+
+  it('matches single hosts and the catch-all prefix', () => {
+    const trie = createPrefixTrie<string>();
+    insertPrefix(trie, range('0.0.0.0/0'), 'any');
+    insertPrefix(trie, range('192.0.2.7'), 'host');
+
+    expect(longestPrefixMatch(trie, bytes('192.0.2.7'))?.value).toBe('host');
+    expect(longestPrefixMatch(trie, bytes('192.0.2.8'))?.value).toBe('any');
+  });
+
+  it('keeps the first value for a duplicate range', () => {
+    const trie = createPrefixTrie<string>();
+    insertPrefix(trie, range('10.0.0.0/8'), 'first');
+    insertPrefix(trie, range('10.0.0.0/8'), 'second');
+
+    expect(longestPrefixMatch(trie, bytes('10.0.0.1'))?.value).toBe('first');
+  });
+});
+
+describe('checkIpLists', () => {
+  const allowList = ['10.0.0.0/8', '2001:db8:ffff::/48'];
+  const denyList = ['10.66.0.0/16', '198.51.100.23'];
+
+  it('exempts addresses in the allow list', () => {
+    expect(checkIpLists('10.1.2.3', allowList, denyList)).toEqual({
+      verdict: 'exempt',
+      matchedRange: '10.0.0.0/8',
+    });
+    expect(checkIpLists('2001:db8:ffff::1', allowList, undefined)).toEqual({
+      verdict: 'exempt',
+      matchedRange: '2001:db8:ffff::/48',
+    });
+  });
+
+  it('lets the deny list win over the allow list', () => {
+    expect(checkIpLists('10.66.1.1', allowList, denyList)).toEqual({
+      verdict: 'deny',
+      matchedRange: '10.66.0.0/16',
+    });
+    expect(checkIpLists('::ffff:198.51.100.23', undefined, denyList)).toEqual({
+      verdict: 'deny',
+      matchedRange: '198.51.100.23',
+    });
+  });
+
+  it('keeps ipv6 ranges away from ipv4 clients', () => {
+    const normal = { verdict: 'normal', matchedRange: null };
+    expect(checkIpLists('198.51.100.7', undefined, ['::/0'])).toEqual(normal);
+    expect(checkIpLists('2001:db8::1', undefined, ['::/0'])).toEqual({
+      verdict: 'deny',
+      matchedRange: '::/0',
+    });
+    expect(
+      checkIpLists('198.51.100.7', ['::ffff:198.51.100.0/120'], ['::/0'])
+    ).toEqual({ verdict: 'exempt', matchedRange: '::ffff:198.51.100.0/120' });
+  });
+
+  it('returns normal for unmatched or missing addresses', () => {
+    const normal = { verdict: 'normal', matchedRange: null };
+    expect(checkIpLists('8.8.8.8', allowList, denyList)).toEqual(normal);
+    expect(checkIpLists(null, allowList, denyList)).toEqual(normal);
+  });
+
+  it('throws for invalid entries', () => {
+    expect(() => checkIpLists('8.8.8.8', ['10.0.0.0/33'], undefined)).toThrow(
+      TypeError
+    );
+    expect(() => checkIpLists(null, undefined, ['nope'])).toThrow(TypeError);
+  });
+});
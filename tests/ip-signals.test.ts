@@ -0,0 +1,170 @@
+import { describe, expect, it } from 'vitest';
+
+import { fingerprint } from '../src/index';
+import { detectSpoofingSignals } from '../src/ip-signals';
+
+describe('detectSpoofingSignals', () => {
+  it('returns no signals when every header agrees on a public client', () => {
+    const headers = new Headers();
+    headers.set('cf-connecting-ip', '81.2.69.160');
+    headers.set('x-forwarded-for', '81.2.69.160, 81.2.69.161');
+
+    expect(
+      detectSpoofingSignals(headers, ['cf-connecting-ip', 'x-forwarded-for'])
+    ).toEqual([]);
+  });
+
+  it('reports headers that disagree with the primary header', () => {
+    const headers = new Headers();
+    headers.set('cf-connecting-ip', '81.2.69.160');
+    headers.set('x-forwarded-for', '6.6.6.6, 81.2.69.160');
+    headers.set('x-real-ip', '::ffff:81.2.69.160');
+
+    expect(
+      detectSpoofingSignals(headers, [
+        'cf-connecting-ip',
+        'x-forwarded-for',
+        'x-real-ip',
+      ])
+    ).toEqual([
+      {
+        kind: 'header-mismatch',
+        header: 'x-forwarded-for',
+        ip: '6.6.6.6',
+        primaryHeader: 'cf-connecting-ip',
+        primaryIp: '81.2.69.160',
+      },
+    ]);
+  });
+
+  it('applies trusted hops per header before comparing', () => {
+    const headers = new Headers();
+    headers.set('cf-connecting-ip', '81.2.69.160');
+    headers.set('x-forwarded-for', '6.6.6.6, 81.2.69.160');
+
+    expect(
+      detectSpoofingSignals(headers, ['cf-connecting-ip', 'x-forwarded-for'], {
+        trustedHops: { 'x-forwarded-for': 1 },
+      })
+    ).toEqual([]);
+  });
+
+  it('reports loopback, private and link-local addresses in client positions', () => {
+    const headers = new Headers();
+    headers.set('x-real-ip', '127.0.0.1');
+    headers.set('x-forwarded-for', '10.1.2.3');
+    headers.set('forwarded', 'for="[fe80::1]"');
+
+    const signals = detectSpoofingSignals(headers, [
+      'x-real-ip',
+      'x-forwarded-for',
+      'forwarded',
+    ]);
+
+    expect(
+      signals
+        .filter((signal) => signal.kind === 'non-public-client')
+        .map((signal) => [signal.header, 'ipClass' in signal && signal.ipClass])
+    ).toEqual([
+      ['x-real-ip', 'loopback'],
+      ['x-forwarded-for', 'private'],
+      ['forwarded', 'linklocal'],
+    ]);
+  });
+
+  it('reports shared and documentation addresses by class', () => {
+    const headers = new Headers();
+    headers.set('x-real-ip', '100.64.12.34');
+    headers.set('x-forwarded-for', '2001:db8::1');
+    headers.set('cf-connecting-ip', '198.51.100.7');
+
+    expect(
+      detectSpoofingSignals(headers, [
+        'x-real-ip',
+        'x-forwarded-for',
+        'cf-connecting-ip',
+      ]).filter((signal) => signal.kind === 'non-public-client')
+    ).toEqual([
+      {
+        kind: 'non-public-client',
+        header: 'x-real-ip',
+        ip: '100.64.12.34',
+        ipClass: 'shared',
+      },
+      {
+        kind: 'non-public-client',
+        header: 'x-forwarded-for',
+        ip: '2001:db8::1',
+        ipClass: 'documentation',
+      },
+      {
+        kind: 'non-public-client',
+        header: 'cf-connecting-ip',
+        ip: '198.51.100.7',
+        ipClass: 'documentation',
+      },
+    ]);
+  });
+
+  it('reports forwarding headers sent by an untrusted peer', () => {
+    const headers = new Headers();
+    headers.set('x-forwarded-for', '81.2.69.160');
+
+    expect(
+      detectSpoofingSignals(
+        headers,
+        ['x-forwarded-for'],
+        { trustedProxies: ['10.0.0.0/8'], requireTrustedPeer: true },
+        '198.51.100.23'
+      )
+    ).toEqual([
+      {
+        kind: 'untrusted-forwarding',
+        header: 'x-forwarded-for',
+        peer: '198.51.100.23',
+      },
+    ]);
+  });
+
+  it('reports non-public clients that nonPublicIps skips for extraction', () => {
+    const headers = new Headers();
+    headers.set('cf-connecting-ip', '81.2.69.160');
+    headers.set('x-forwarded-for', '10.0.0.5');
+
+    const result = fingerprint(
+      { headers },
+      { nonPublicIps: 'skip', detectSpoofing: true }
+    );
+
+    expect(result.traits.ip).toBe('81.2.69.160');
+    expect(result.signals).toEqual([
+      {
+        kind: 'non-public-client',
+        header: 'x-forwarded-for',
+        ip: '10.0.0.5',
+        ipClass: 'private',
+      },
+      {
+        kind: 'header-mismatch',
+        header: 'x-forwarded-for',
+        ip: '10.0.0.5',
+        primaryHeader: 'cf-connecting-ip',
+        primaryIp: '81.2.69.160',
+      },
+    ]);
+  });
+
+  it('is attached to the fingerprint result only when requested', () => {
+    const headers = new Headers();
+    headers.set('cf-connecting-ip', '81.2.69.160');
+    headers.set('x-forwarded-for', '6.6.6.6');
+
+    expect(fingerprint({ headers }).signals).toBeUndefined();
+
+    const result = fingerprint({ headers }, { detectSpoofing: true });
+    expect(result.traits.ip).toBe('81.2.69.160');
+    expect(result.signals?.map((signal) => signal.kind)).toEqual([
+      'header-mismatch',
+    ]);
+  });
+});
@@ -0,0 +1,156 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  compareIp,
+  formatIp,
+  formatIpPrefix,
+  ipEquals,
+  ipFamily,
+  maskIp,
+  parseIp,
+  parseIpPrefix,
+  prefixContains,
+} from '../src/ip';
+
+function ip(input: string) {
+  const parsed = parseIp(input);
+  if (parsed === null) throw new Error(`not an ip: ${input}`);
+  return parsed;
+}
+
+function prefix(input: string) {
+  const parsed = parseIpPrefix(input);
+  if (parsed === null) throw new Error(`not a prefix: ${input}`);
+  return parsed;
+}
+
+describe('parseIp', () => {
+  it('parses ipv4 into four bytes', () => {
+    expect(parseIp('203.0.113.7')).toEqual({
+      family: 4,
+      bytes: Uint8Array.from([203, 0, 113, 7]),
+      zone: null,
+    });
+  });
+
+  it('parses ipv6 into sixteen bytes and keeps the zone', () => {
+    const parsed = ip('FE80::1%eth0');
+    expect(parsed.family).toBe(6);
+    expect(parsed.bytes.length).toBe(16);
+    expect(parsed.bytes[0]).toBe(0xfe);
+    expect(parsed.bytes[15]).toBe(1);
+    expect(parsed.zone).toBe('eth0');
+  });
+
+  it('rejects values that are not strict ip literals', () => {
+    expect(parseIp('010.0.0.1')).toBeNull();
+    expect(parseIp('1.2.3')).toBeNull();
+    expect(parseIp('2001::db8::1')).toBeNull();
+    expect(parseIp('2001:db8:0x1::1')).toBeNull();
+    expect(parseIp('fe80::1%')).toBeNull();
+    expect(parseIp('unknown')).toBeNull();
+  });
+});
+
+describe('ipFamily', () => {
+  it('detects the address family', () => {
+    expect(ipFamily('192.0.2.1')).toBe(4);
+    expect(ipFamily('::ffff:192.0.2.1')).toBe(6);
+    expect(ipFamily('nope')).toBeNull();
+  });
+});
+
+describe('formatIp', () => {
+  it('writes rfc 5952 text by default', () => {
+    expect(formatIp(ip('2001:0DB8:0000:0000:0001:0000:0000:0001'))).toBe(
+      '2001:db8::1:0:0:1'
+    );
+    expect(formatIp(ip('::ffff:c000:201'))).toBe('::ffff:192.0.2.1');
+    expect(formatIp(ip('fe80::1%eth0'))).toBe('fe80::1%eth0');
+    expect(formatIp(ip('192.0.2.1'))).toBe('192.0.2.1');
+  });
+
+  it('writes eight zero-padded groups in full form', () => {
+    expect(formatIp(ip('2001:db8::1'), 'full')).toBe(
+      '2001:0db8:0000:0000:0000:0000:0000:0001'
+    );
+  });
+});
+
+describe('maskIp', () => {
+  it('clears host bits without modifying the input', () => {
+    const address = ip('2001:db8:12:34ff::1');
+    expect(formatIp(maskIp(address, 56))).toBe('2001:db8:12:3400::');
+    expect(formatIp(address)).toBe('2001:db8:12:34ff::1');
+    expect(formatIp(maskIp(ip('203.0.113.77'), 20))).toBe('203.0.112.0');
+    expect(formatIp(maskIp(ip('203.0.113.77'), 0))).toBe('0.0.0.0');
+  });
+
+  it('throws for lengths outside the family range', () => {
+    expect(() => maskIp(ip('203.0.113.77'), 33)).toThrow(RangeError);
+    expect(() => maskIp(ip('2001:db8::1'), 129)).toThrow(RangeError);
+    expect(() => maskIp(ip('2001:db8::1'), 12.5)).toThrow(RangeError);
+  });
+});
+
+describe('parseIpPrefix', () => {
+  it('parses cidr notation and clears host bits', () => {
+    const parsed = prefix('2001:db8:12:34ff::1/56');
+    expect(parsed.length).toBe(56);
+    expect(formatIpPrefix(parsed)).toBe('2001:db8:12:3400::/56');
+    expect(formatIpPrefix(prefix('10.1.2.3/8'))).toBe('10.0.0.0/8');
+  });
+
+  it('treats a bare address as a single host', () => {
+    expect(formatIpPrefix(prefix('192.0.2.1'))).toBe('192.0.2.1/32');
+    expect(formatIpPrefix(prefix('::1'))).toBe('::1/128');
+  });
+
+  it('rejects invalid lengths', () => {
+    expect(parseIpPrefix('192.0.2.0/33')).toBeNull();
+    expect(parseIpPrefix('192.0.2.0/')).toBeNull();
+    expect(parseIpPrefix('192.0.2.0/-1')).toBeNull();
+    expect(parseIpPrefix('2001:db8::/129')).toBeNull();
+  });
+});
+
+describe('prefixContains', () => {
+  it('checks containment within one family', () => {
+    expect(prefixContains(prefix('10.0.0.0/8'), ip('10.20.30.40'))).toBe(true);
+    expect(prefixContains(prefix('10.0.0.0/8'), ip('11.0.0.1'))).toBe(false);
+    expect(prefixContains(prefix('2001:db8::/32'), ip('2001:db8:1::1'))).toBe(
+      true
+    );
+    expect(prefixContains(prefix('0.0.0.0/0'), ip('198.51.100.1'))).toBe(true);
+  });
+
+  it('matches ipv4 prefixes against ipv4-mapped ipv6', () => {
+    expect(prefixContains(prefix('10.0.0.0/8'), ip('::ffff:10.0.0.1'))).toBe(
+      true
+    );
+    expect(prefixContains(prefix('0.0.0.0/0'), ip('2001:db8::1'))).toBe(false);
+  });
+});
+
+describe('compareIp / ipEquals', () => {
+  it('treats equivalent spellings as equal', () => {
+    expect(ipEquals(ip('2001:db8::1'), ip('2001:0db8:0:0:0:0:0:1'))).toBe(true);
+    expect(ipEquals(ip('::ffff:192.0.2.1'), ip('192.0.2.1'))).toBe(true);
+    expect(ipEquals(ip('fe80::1%eth0'), ip('fe80::1%eth1'))).toBe(true);
+    expect(ipEquals(ip('192.0.2.1'), ip('192.0.2.2'))).toBe(false);
+  });
+
+  it('sorts ipv4 before ipv6, then by address bits', () => {
+    const sorted = ['2001:db8::2', '192.0.2.10', '2001:db8::1', '192.0.2.9']
+      .map(ip)
+      .sort(compareIp)
+      .map((address) => formatIp(address));
+
+    expect(sorted).toEqual([
+      '192.0.2.9',
+      '192.0.2.10',
+      '2001:db8::1',
+      '2001:db8::2',
+    ]);
+  });
+});
@@ -0,0 +1,488 @@
+import { describe, expect, it } from 'vitest';
+
+import { createMmdbLookup, createMmdbReader, fingerprint } from '../src/index';
+import { ipToBytes } from '../src/ip-cidr';
+import type { MmdbValue } from '../src/types';
+
+const encoder = new TextEncoder();
+
+const METADATA_MARKER = [
+  0xab,
+  0xcd,
+  0xef,
+  ...encoder.encode('MaxMind.com'),
+] as const;
+
+function control(type: number, size: number): number[] {
+  const head = type <= 7 ? [type << 5] : [0, type - 7];
+  let sizeBytes: number[] = [];
+  let sizeField = size;
+
+  if (size >= 65821) {
+    const rest = size - 65821;
+    sizeField = 31;
+    sizeBytes = [(rest >> 16) & 0xff, (rest >> 8) & 0xff, rest & 0xff];
+  } else if (size >= 285) {
+    const rest = size - 285;
+    sizeField = 30;
+    sizeBytes = [(rest >> 8) & 0xff, rest & 0xff];
+  } else if (size >= 29) {
+    sizeField = 29;
+    sizeBytes = [size - 29];
+  }
+
+  head[0] = head[0]! | sizeField;
+  return [...head, ...sizeBytes];
+}
+
+function uintBytes(value: number | bigint): number[] {
+  const out: number[] = [];
+  let rest = BigInt(value);
+  while (rest > 0n) {
+    out.unshift(Number(rest & 0xffn));
+    rest >>= 8n;
+  }
+  return out;
+}
+
+function encode(value: MmdbValue): number[] {
+  if (typeof value === 'string') {
+    const bytes = [...encoder.encode(value)];
+    return [...control(2, bytes.length), ...bytes];
+  }
+  if (typeof value === 'boolean') return control(14, value ? 1 : 0);
+  if (typeof value === 'bigint') {
+    const bytes = uintBytes(value);
+    return [...control(bytes.length > 8 ? 10 : 9, bytes.length), ...bytes];
+  }
+  if (typeof value === 'number') {
+    if (!Number.isInteger(value)) {
+      const view = new DataView(new ArrayBuffer(8));
+      view.setFloat64(0, value);
+      return [...control(3, 8), ...new Uint8Array(view.buffer)];
+    }
+    const bytes = uintBytes(value);
+    return [...control(value > 0xffff ? 6 : 5, bytes.length), ...bytes];
+  }
+  if (value instanceof Uint8Array) {
+    return [...control(4, value.length), ...value];
+  }
+  if (Array.isArray(value)) {
+    return [
+      ...control(11, value.length),
+      ...value.flatMap((item: MmdbValue) => encode(item)),
+    ];
+  }
+  const entries = Object.entries(value);
+  return [
+    ...control(7, entries.length),
+    ...entries.flatMap(([key, item]) => [...encode(key), ...encode(item)]),
+  ];
+}
+
+interface Network {
+  readonly cidr: string;
+  readonly data: MmdbValue;
+}
+
+interface WriteOptions {
+  readonly recordSize?: 24 | 28 | 32;
+  readonly ipVersion?: 4 | 6;
+  /** zero bytes placed in front of the records in the data section. */
+  readonly padding?: number;
+  readonly metadata?: Record<string, MmdbValue>;
+}
+
+type Slot = { node: number } | { data: number } | null;
+
+/**
+ * a minimal mmdb writer: one leaf per network, no record deduplication.
+ * ipv4 networks in an ipv6 database live under ::/96.
+ */
+function writeMmdb(
+  networks: readonly Network[],
+  options: WriteOptions = {}
+): Uint8Array {
+  const recordSize = options.recordSize ?? 24;
+  const ipVersion = options.ipVersion ?? 6;
+  const padding = options.padding ?? 0;
+
+  const nodes: [Slot, Slot][] = [[null, null]];
+  const data: number[] = [];
+
+  for (const { cidr, data: value } of networks) {
+    const [address, lengthText] = cidr.split('/');
+    const isV4 = !address!.includes(':');
+    const bytes = ipToBytes(address!)!;
+    const length = Number(lengthText);
+
+    let bits: number[] = [];
+    for (let i = 0; i < 128; i++) {
+      bits.push((bytes[i >> 3]! >> (7 - (i & 7))) & 1);
+    }
+    if (isV4) {
+      bits =
+        ipVersion === 4 ? bits.slice(96) : [...zeros(96), ...bits.slice(96)];
+    }
+    bits = bits.slice(0, (isV4 && ipVersion === 6 ? 96 : 0) + length);
+
+    let node = 0;
+    for (let i = 0; i < bits.length - 1; i++) {
+      const slot = nodes[node]![bits[i]!]!;
+      if (slot !== null && 'node' in slot) {
+        node = slot.node;
+      } else {
+        nodes.push([null, null]);
+        nodes[node]![bits[i]!] = { node: nodes.length - 1 };
+        node = nodes.length - 1;
+      }
+    }
+
+    nodes[node]![bits[bits.length - 1]!] = { data: padding + data.length };
+    data.push(...encode(value));
+  }
+
+  const nodeCount = nodes.length;
+  const recordValue = (slot: Slot): number =>
+    slot === null
+      ? nodeCount
+      : 'node' in slot
+        ? slot.node
+        : nodeCount + 16 + slot.data;
+
+  const tree: number[] = [];
+  for (const [left, right] of nodes) {
+    const l = recordValue(left);
+    const r = recordValue(right);
+    if (recordSize === 24) {
+      tree.push(...be(l, 3), ...be(r, 3));
+    } else if (recordSize === 28) {
+      tree.push(
+        ...be(l % 0x1000000, 3),
+        (Math.floor(l / 0x1000000) << 4) | Math.floor(r / 0x1000000),
+        ...be(r % 0x1000000, 3)
+      );
+    } else {
+      tree.push(...be(l, 4), ...be(r, 4));
+    }
+  }
+
+  const metadata = encode({
+    node_count: nodeCount,
+    record_size: recordSize,
+    ip_version: ipVersion,
+    database_type: 'Test-DB',
+    languages: ['en'],
+    description: { en: 'test database' },
+    build_epoch: 1700000000n,
+    binary_format_major_version: 2,
+    binary_format_minor_version: 0,
+    ...options.metadata,
+  });
+
+  const out = new Uint8Array(
+    tree.length +
+      16 +
+      padding +
+      data.length +
+      METADATA_MARKER.length +
+      metadata.length
+  );
+  let offset = 0;
+  out.set(tree, offset);
+  offset += tree.length + 16 + padding;
+  out.set(data, offset);
+  offset += data.length;
+  out.set(METADATA_MARKER, offset);
+  out.set(metadata, offset + METADATA_MARKER.length);
+  return out;
+}
+
+function be(value: number, size: number): number[] {
+  const out: number[] = [];
+  for (let i = size - 1; i >= 0; i--) {
+    out.push(Math.floor(value / 256 ** i) & 0xff);
+  }
+  return out;
+}
+
+function zeros(count: number): number[] {
+  return new Array<number>(count).fill(0);
+}
+
+const ASN_NETWORKS: readonly Network[] = [
+  {
+    cidr: '203.0.113.0/24',
+    data: {
+      autonomous_system_number: 64500,
+      autonomous_system_organization: 'Example Hosting',
+    },
+  },
+  {
+    cidr: '2001:db8:100::/40',
+    data: {
+      autonomous_system_number: 64501,
+      autonomous_system_organization: 'Example Cloud',
+    },
+  },
+];
+
+const COUNTRY_NETWORKS: readonly Network[] = [
+  {
+    cidr: '203.0.113.0/25',
+    data: { country: { iso_code: 'NL', names: { en: 'Netherlands' } } },
+  },
+  {
+    cidr: '203.0.113.128/25',
+    data: { registered_country: { iso_code: 'DE' } },
+  },
+];
+
+describe('createMmdbReader', () => {
+  it.each([24, 28, 32] as const)(
+    'looks up ipv4 and ipv6 networks with %i-bit records',
+    (recordSize) => {
+      const reader = createMmdbReader(writeMmdb(ASN_NETWORKS, { recordSize }));
+
+      expect(reader.lookup('203.0.113.77')).toEqual({
+        autonomous_system_number: 64500,
+        autonomous_system_organization: 'Example Hosting',
+      });
+      expect(reader.lookup('::ffff:203.0.113.1')).toEqual(
+        reader.lookup('203.0.113.1')
+      );
+      expect(reader.lookup('2001:db8:1ff:ffff::1')).toEqual({
+        autonomous_system_number: 64501,
+        autonomous_system_organization: 'Example Cloud',
+      });
+      expect(reader.lookup('203.0.114.1')).toBeNull();
+      expect(reader.lookup('2001:db8:200::1')).toBeNull();
+    }
+  );
+
+  it('reads records past 2^24 with 28-bit records', () => {
+    const reader = createMmdbReader(
+      writeMmdb(ASN_NETWORKS, { recordSize: 28, padding: 0x1000000 })
+    );
+
+    expect(reader.lookup('203.0.113.77')).toMatchObject({
+      autonomous_system_number: 64500,
+    });
+    expect(reader.lookup('2001:db8:100::1')).toMatchObject({
+      autonomous_system_number: 64501,
+    });
+  });
+
+  it('reads ipv4-only databases and misses ipv6 addresses', () => {
+    const reader = createMmdbReader(
+      writeMmdb(COUNTRY_NETWORKS, { ipVersion: 4 })
+    );
+
+    expect(reader.metadata.ipVersion).toBe(4);
+    expect(reader.lookup('203.0.113.5')).toMatchObject({
+      country: { iso_code: 'NL' },
+    });
+    expect(reader.lookup('2001:db8::1')).toBeNull();
+  });
+
+  it('exposes metadata', () => {
+    const reader = createMmdbReader(writeMmdb(ASN_NETWORKS));
+
+    expect(reader.metadata).toEqual({
+      nodeCount: reader.metadata.nodeCount,
+      recordSize: 24,
+      ipVersion: 6,
+      databaseType: 'Test-DB',
+      languages: ['en'],
+      description: { en: 'test database' },
+      buildEpoch: 1700000000,
+      binaryFormatMajorVersion: 2,
+      binaryFormatMinorVersion: 0,
+    });
+    expect(reader.metadata.nodeCount).toBeGreaterThan(0);
+  });
+
+  it('decodes every data type', () => {
+    const bytes = Uint8Array.from([1, 2, 3]);
+    const reader = createMmdbReader(
+      writeMmdb([
+        {
+          cidr: '198.51.100.0/24',
+          data: {
+            text: 'x'.repeat(300),
+            double: 1.5,
+            bytes,
+            small: 7,
+            wide: 70000,
+            big: 2n ** 64n - 1n,
+            huge: 2n ** 100n,
+            flag: true,
+            off: false,
+            list: [1, 'two', [3]],
+            empty: {},
+          },
+        },
+      ])
+    );
+
+    expect(reader.lookup('198.51.100.1')).toEqual({
+      text: 'x'.repeat(300),
+      double: 1.5,
+      bytes,
+      small: 7,
+      wide: 70000,
+      big: 2n ** 64n - 1n,
+      huge: 2n ** 100n,
+      flag: true,
+      off: false,
+      list: [1, 'two', [3]],
+      empty: {},
+    });
+  });
+
+  it('keeps a __proto__ map key as a plain property', () => {
+    const data = JSON.parse(
+      '{"__proto__":{"polluted":"yes"},"name":"x"}'
+    ) as MmdbValue;
+    const reader = createMmdbReader(
+      writeMmdb([{ cidr: '198.51.100.0/24', data }])
+    );
+
+    const record = reader.lookup('198.51.100.1') as Record<string, unknown>;
+    expect(Object.getPrototypeOf(record)).toBe(Object.prototype);
+    expect(record['polluted']).toBeUndefined();
+    expect(Object.getOwnPropertyDescriptor(record, '__proto__')?.value).toEqual(
+      { polluted: 'yes' }
+    );
+    expect(record['name']).toBe('x');
+  });
+
+  it('follows pointers within the data section', () => {
+    const buffer = writeMmdb([
+      { cidr: '198.51.100.0/24', data: { name: 'shared' } },
+      { cidr: '192.0.2.0/24', data: { name: 'other' } },
+    ]);
+    const reader = createMmdbReader(buffer);
+
+    // rewrite the second record as a one-entry map whose value points at the
+    // first record's "shared" string.
+    const first = [...encode({ name: 'shared' })];
+    const dataStart = reader.metadata.nodeCount * 6 + 16;
+    const second = dataStart + first.length;
+    const stringOffset = encode('name').length + 1;
+    buffer.set(
+      [...control(7, 1), ...encode('name'), 0x20, stringOffset],
+      second
+    );
+
+    expect(reader.lookup('192.0.2.1')).toEqual({ name: 'shared' });
+  });
+
+  it('rejects buffers that are not mmdb files', () => {
+    expect(() => createMmdbReader(new Uint8Array(64))).toThrow(
+      new TypeError('invalid mmdb: metadata marker not found')
+    );
+    expect(() =>
+      createMmdbReader(
+        writeMmdb(ASN_NETWORKS, { metadata: { record_size: 20 } })
+      )
+    ).toThrow(new TypeError('invalid mmdb: unsupported record_size'));
+    expect(() =>
+      createMmdbReader(
+        writeMmdb(ASN_NETWORKS, {
+          metadata: { binary_format_major_version: 3 },
+        })
+      )
+    ).toThrow(new TypeError('invalid mmdb: unsupported binary format version'));
+  });
+
+  it('returns null for non-ip input', () => {
+    const reader = createMmdbReader(writeMmdb(ASN_NETWORKS));
+    expect(reader.lookup('not-an-ip')).toBeNull();
+  });
+});
+
+describe('createMmdbLookup', () => {
+  const asnReader = createMmdbReader(writeMmdb(ASN_NETWORKS));
+  const countryReader = createMmdbReader(writeMmdb(COUNTRY_NETWORKS));
+  const lookup = createMmdbLookup(asnReader, countryReader);
+
+  it('merges asn and country from several databases', () => {
+    expect(lookup('203.0.113.5')).toEqual({ asn: 64500, country: 'NL' });
+  });
+
+  it('falls back to the registered country', () => {
+    expect(lookup('203.0.113.200')).toEqual({ asn: 64500, country: 'DE' });
+  });
+
+  it('leaves unknown fields null', () => {
+    expect(lookup('2001:db8:100::1')).toEqual({ asn: 64501, country: null });
+    expect(lookup('192.0.2.1')).toEqual({ asn: null, country: null });
+  });
+});
+
+describe('fingerprint with networkLookup', () => {
+  const networkLookup = createMmdbLookup(
+    createMmdbReader(writeMmdb(ASN_NETWORKS)),
+    createMmdbReader(writeMmdb(COUNTRY_NETWORKS))
+  );
+
+  function request(ip: string) {
+    return { headers: new Headers({ 'x-forwarded-for': ip }) };
+  }
+
+  it('adds asn and country traits without changing the key', () => {
+    const plain = fingerprint(request('203.0.113.5'));
+    const result = fingerprint(request('203.0.113.5'), { networkLookup });
+
+    expect(result.traits.asn).toBe(64500);
+    expect(result.traits.country).toBe('NL');
+    expect(result.parts).toEqual(plain.parts);
+    expect(result.hash).toBe(plain.hash);
+  });
+
+  it('anchors on the asn with anchorOnAsn', () => {
+    const a = fingerprint(request('203.0.113.5'), {
+      networkLookup,
+      anchorOnAsn: true,
+    });
+    const b = fingerprint(request('203.0.113.200'), {
+      networkLookup,
+      anchorOnAsn: true,
+    });
+
+    expect(a.parts).toEqual(['asn:64500']);
+    expect(a.traits.ip).toBe('203.0.113.5');
+    expect(b.hash).toBe(a.hash);
+  });
+
+  it('keeps the ip anchor when the asn is unknown', () => {
+    const result = fingerprint(request('192.0.2.1'), {
+      networkLookup,
+      anchorOnAsn: true,
+    });
+
+    expect(result.parts).toEqual(['ip:192.0.2.1']);
+    expect(result.traits.asn).toBeNull();
+  });
+
+  it('looks up the client ip before subnet bucketing', () => {
+    const result = fingerprint(request('2001:db8:1ff::1'), {
+      networkLookup,
+      ipv6Subnet: 32,
+    });
+
+    expect(result.traits.asn).toBe(64501);
+  });
+
+  it('lets actorId take precedence', () => {
+    const result = fingerprint(request('203.0.113.5'), {
+      networkLookup,
+      anchorOnAsn: true,
+      actorId: 'user-1',
+    });
+
+    expect(result.parts).toEqual(['actor:user-1']);
+    expect(result.traits.asn).toBeNull();
+  });
+});
@@ -0,0 +1,192 @@
+import { describe, expect, it } from 'vitest';
+
+import { fingerprint } from '../src/index';
+import { parseProxyProtocol } from '../src/proxy-protocol';
+
+const encoder = new TextEncoder();
+
+const V2_SIGNATURE = [
+  0x0d, 0x0a, 0x0d, 0x0a, 0x00, 0x0d, 0x0a, 0x51, 0x55, 0x49, 0x54, 0x0a,
+];
+
+function v2(
+  command: number,
+  family: number,
+  body: readonly number[]
+): Uint8Array {
+  return Uint8Array.from([
+    ...V2_SIGNATURE,
+    0x20 | command,
+    family,
+    body.length >> 8,
+    body.length & 0xff,
+    ...body,
+  ]);
+}
+
+function tlv(type: number, value: readonly number[]): number[] {
+  return [type, value.length >> 8, value.length & 0xff, ...value];
+}
+
+describe('parseProxyProtocol', () => {
+  it('parses a v1 TCP4 line and reports where the payload starts', () => {
+    const line = 'PROXY TCP4 203.0.113.10 192.0.2.1 56324 443\r\n';
+    const bytes = encoder.encode(`${line}GET / HTTP/1.1\r\n`);
+
+    expect(parseProxyProtocol(bytes)).toEqual({
+      version: 1,
+      command: 'proxy',
+      transport: 'tcp4',
+      sourceAddress: '203.0.113.10',
+      sourcePort: 56324,
+      destinationAddress: '192.0.2.1',
+      destinationPort: 443,
+      tlvs: [],
+      authority: null,
+      awsVpceId: null,
+      length: line.length,
+    });
+  });
+
+  it('parses v1 TCP6 and UNKNOWN lines', () => {
+    const tcp6 = parseProxyProtocol(
+      encoder.encode('PROXY TCP6 2001:db8::1 2001:db8::2 4711 443\r\n')
+    );
+    expect(tcp6?.sourceAddress).toBe('2001:db8::1');
+    expect(tcp6?.transport).toBe('tcp6');
+
+    const unknown = parseProxyProtocol(encoder.encode('PROXY UNKNOWN\r\n'));
+    expect(unknown?.transport).toBe('unknown');
+    expect(unknown?.sourceAddress).toBeNull();
+  });
+
+  it('rejects malformed or incomplete v1 lines', () => {
+    expect(
+      parseProxyProtocol(encoder.encode('PROXY TCP4 203.0.113.10 192.0.2.1'))
+    ).toBeNull();
+    expect(
+      parseProxyProtocol(
+        encoder.encode('PROXY TCP4 2001:db8::1 192.0.2.1 1 2\r\n')
+      )
+    ).toBeNull();
+    expect(
+      parseProxyProtocol(
+        encoder.encode('PROXY TCP4 203.0.113.10 192.0.2.1 70000 443\r\n')
+      )
+    ).toBeNull();
+    expect(parseProxyProtocol(encoder.encode('GET / HTTP/1.1\r\n'))).toBeNull();
+  });
+
+  it('parses a v2 TCP4 header with an AWS VPC endpoint TLV', () => {
+    const vpce = [...encoder.encode('vpce-0123456789abcdef')];
+    const bytes = v2(0x1, 0x11, [
+      203,
+      0,
+      113,
+      10,
+      192,
+      0,
+      2,
+      1,
+      0xdc,
+      0x04,
+      0x01,
+      0xbb,
+      ...tlv(0xea, [0x01, ...vpce]),
+      ...tlv(0x02, [...encoder.encode('api.example.com')]),
+    ]);
+
+    const header = parseProxyProtocol(bytes);
+
+    expect(header?.version).toBe(2);
+    expect(header?.command).toBe('proxy');
+    expect(header?.sourceAddress).toBe('203.0.113.10');
+    expect(header?.sourcePort).toBe(56324);
+    expect(header?.destinationAddress).toBe('192.0.2.1');
+    expect(header?.destinationPort).toBe(443);
+    expect(header?.awsVpceId).toBe('vpce-0123456789abcdef');
+    expect(header?.authority).toBe('api.example.com');
+    expect(header?.tlvs.map((t) => t.type)).toEqual([0xea, 0x02]);
+    expect(header?.length).toBe(bytes.length);
+  });
+
+  it('parses a v2 TCP6 header', () => {
+    const src = [0x20, 0x01, 0x0d, 0xb8, ...new Array<number>(11).fill(0), 1];
+    const dst = [0x20, 0x01, 0x0d, 0xb8, ...new Array<number>(11).fill(0), 2];
+    const header = parseProxyProtocol(
+      v2(0x1, 0x21, [...src, ...dst, 0x12, 0x67, 0x01, 0xbb])
+    );
+
+    expect(header?.sourceAddress).toBe('2001:db8:0:0:0:0:0:1');
+    expect(header?.sourcePort).toBe(4711);
+  });
+
+  it('returns no addresses for v2 LOCAL connections', () => {
+    const header = parseProxyProtocol(v2(0x0, 0x00, []));
+
+    expect(header?.command).toBe('local');
+    expect(header?.sourceAddress).toBeNull();
+  });
+
+  it('skips the body of v2 LOCAL and UNSPEC headers', () => {
+    const malformed = [203, 0, 113, 10, 0x02, 0, 9];
+    const local = parseProxyProtocol(v2(0x0, 0x11, malformed));
+    const unspec = parseProxyProtocol(v2(0x1, 0x00, malformed));
+
+    expect(local).toMatchObject({
+      command: 'local',
+      transport: 'tcp4',
+      sourceAddress: null,
+      tlvs: [],
+      length: 16 + malformed.length,
+    });
+    expect(unspec).toMatchObject({
+      command: 'proxy',
+      transport: 'unknown',
+      sourceAddress: null,
+      tlvs: [],
+      length: 16 + malformed.length,
+    });
+  });
+
+  it('rejects truncated v2 headers and TLVs', () => {
+    const full = v2(0x1, 0x11, [203, 0, 113, 10, 192, 0, 2, 1, 0, 1, 0, 2]);
+    expect(parseProxyProtocol(full.subarray(0, full.length - 1))).toBeNull();
+
+    expect(
+      parseProxyProtocol(
+        v2(0x1, 0x11, [203, 0, 113, 10, 192, 0, 2, 1, 0, 1, 0, 2, 0x02, 0, 9])
+      )
+    ).toBeNull();
+  });
+});
+
+describe('fingerprint with proxyProtocol', () => {
+  it('anchors on the PROXY protocol source instead of the load balancer', () => {
+    const proxyProtocol = parseProxyProtocol(
+      encoder.encode('PROXY TCP4 203.0.113.10 192.0.2.1 56324 443\r\n')
+    )!;
+
+    const result = fingerprint({
+      headers: new Headers(),
+      remoteAddress: '10.0.0.5',
+      proxyProtocol,
+    });
+
+    expect(result.traits.ip).toBe('203.0.113.10');
+    expect(result.traits.ipSource).toBe('proxy-protocol');
+  });
+
+  it('falls back to the socket peer for LOCAL connections', () => {
+    const proxyProtocol = parseProxyProtocol(v2(0x0, 0x00, []))!;
+
+    const result = fingerprint(
+      { headers: new Headers(), remoteAddress: '10.0.0.5', proxyProtocol },
+      { explain: true }
+    );
+
+    expect(result.traits.ip).toBe('10.0.0.5');
+    expect(result.traits.ipSource).toBe('peer');
+    expect(result.explain?.source).toBe('peer');
+  });
+});
@@ -1,6 +1,10 @@
 import { describe, expect, it } from 'vitest';
 
-import { normalizeIpForBucket } from '../src/ip-subnet';
+import {
+  bucketIp,
+  formatIpBucket,
+  normalizeIpForBucket,
+} from '../src/ip-subnet';
 
 describe('normalizeIpForBucket', () => {
   it('returns null for null', () => {
@@ -132,4 +136,232 @@ describe('normalizeIpForBucket', () => {
       '::ffff:203.0.113.10abc'
     );
   });
+
+  it('keeps IPv4 whole by default and masks it when ipv4Subnet is set', () => {
+    expect(normalizeIpForBucket('203.0.113.10', {})).toBe('203.0.113.10');
+    expect(normalizeIpForBucket('203.0.113.10', { ipv4Subnet: 24 })).toBe(
+      '203.0.113.0'
+    );
+    expect(normalizeIpForBucket('203.0.113.200', { ipv4Subnet: 24 })).toBe(
+      '203.0.113.0'
+    );
+    expect(normalizeIpForBucket('203.0.113.200', { ipv4Subnet: 20 })).toBe(
+      '203.0.112.0'
+    );
+    expect(normalizeIpForBucket('203.0.113.10', { ipv4Subnet: 32 })).toBe(
+      '203.0.113.10'
+    );
+  });
+
+  it('masks IPv4-mapped IPv6 with ipv4Subnet after unmapping', () => {
+    expect(
+      normalizeIpForBucket('::ffff:203.0.113.77', {
+        ipv4Subnet: 24,
+        ipv6Subnet: 48,
+      })
+    ).toBe('203.0.113.0');
+  });
+
+  it('applies ipv6Subnet from an options object', () => {
+    expect(
+      normalizeIpForBucket('2001:db8:abcd:1234::1', {
+        ipv6Subnet: 48,
+        ipv4Subnet: 24,
+      })
+    ).toBe('2001:0db8:abcd:0000:0000:0000:0000:0000');
+  });
+
+  it('throws for invalid ipv4Subnet prefixes', () => {
+    expect(() =>
+      normalizeIpForBucket('203.0.113.10', { ipv4Subnet: 0 })
+    ).toThrow(RangeError);
+    expect(() =>
+      normalizeIpForBucket('203.0.113.10', { ipv4Subnet: 33 })
+    ).toThrow(RangeError);
+    expect(() =>
+      normalizeIpForBucket('203.0.113.10', { ipv4Subnet: 24.5 })
+    ).toThrow(RangeError);
+  });
+
+  it('returns invalid IPv4 raw even when ipv4Subnet is set', () => {
+    expect(normalizeIpForBucket('203.0.113', { ipv4Subnet: 24 })).toBe(
+      '203.0.113'
+    );
+  });
+
+  it('unwraps the ipv4 client from nat64 addresses', () => {
+    expect(normalizeIpForBucket('64:ff9b::192.0.2.33', undefined)).toBe(
+      '192.0.2.33'
+    );
+    expect(normalizeIpForBucket('64:ff9b:1:abcd::c000:221', undefined)).toBe(
+      '192.0.2.33'
+    );
+    expect(normalizeIpForBucket('64:ff9b::c000:221', { ipv4Subnet: 24 })).toBe(
+      '192.0.2.0'
+    );
+  });
+
+  it('unwraps the 6to4 site address', () => {
+    expect(normalizeIpForBucket('2002:c000:204:1::5', undefined)).toBe(
+      '192.0.2.4'
+    );
+  });
+
+  it('decodes the obfuscated teredo client address', () => {
+    expect(
+      normalizeIpForBucket('2001:0000:4136:e378:8000:63bf:3fff:fdd2', undefined)
+    ).toBe('192.0.2.45');
+  });
+
+  it('keeps transition addresses as ipv6 when unwrapping is turned off', () => {
+    expect(
+      normalizeIpForBucket('64:ff9b::192.0.2.33', {
+        unwrapNat64: false,
+        ipv6Subnet: 128,
+      })
+    ).toBe('0064:ff9b:0000:0000:0000:0000:c000:0221');
+    expect(
+      normalizeIpForBucket('2002:c000:204:1::5', { unwrap6to4: false })
+    ).toBe('2002:c000:0204:0000:0000:0000:0000:0000');
+    expect(
+      normalizeIpForBucket('2001:0000:4136:e378:8000:63bf:3fff:fdd2', {
+        unwrapTeredo: false,
+      })
+    ).toBe('2001:0000:4136:e300:0000:0000:0000:0000');
+  });
+
+  it('does not unwrap addresses outside the nat64 prefixes', () => {
+    expect(normalizeIpForBucket('64:ff9b:2::c000:221', 128)).toBe(
+      '0064:ff9b:0002:0000:0000:0000:c000:0221'
+    );
+  });
+
+  it('uses the most specific subnet override for the address', () => {
+    const subnetOverrides = {
+      '2001:db8::/32': 64,
+      '2001:db8:aa::/48': 128,
+      '198.51.100.0/24': 24,
+    };
+
+    expect(normalizeIpForBucket('2001:db8:1:2:3::1', { subnetOverrides })).toBe(
+      '2001:0db8:0001:0002:0000:0000:0000:0000'
+    );
+    expect(
+      normalizeIpForBucket('2001:db8:aa:2:3::1', { subnetOverrides })
+    ).toBe('2001:0db8:00aa:0002:0003:0000:0000:0001');
+    expect(normalizeIpForBucket('2001:db9:1:2ff::1', { subnetOverrides })).toBe(
+      '2001:0db9:0001:0200:0000:0000:0000:0000'
+    );
+    expect(normalizeIpForBucket('198.51.100.77', { subnetOverrides })).toBe(
+      '198.51.100.0'
+    );
+    expect(
+      normalizeIpForBucket('::ffff:198.51.100.77', { subnetOverrides })
+    ).toBe('198.51.100.0');
+    expect(normalizeIpForBucket('203.0.113.77', { subnetOverrides })).toBe(
+      '203.0.113.77'
+    );
+  });
+
+  it('keeps ipv6 overrides away from ipv4 clients', () => {
+    const subnetOverrides = { '::/0': 64 };
+
+    expect(
+      bucketIp('203.0.113.7', { ipv4Subnet: 24, subnetOverrides })
+    ).toEqual({ ip: '203.0.113.0', prefix: 24 });
+    expect(
+      bucketIp('::ffff:203.0.113.7', { ipv4Subnet: 24, subnetOverrides })
+    ).toEqual({ ip: '203.0.113.0', prefix: 24 });
+    expect(bucketIp('2001:db8:1:2:3::1', { subnetOverrides })).toEqual({
+      ip: '2001:0db8:0001:0002:0000:0000:0000:0000',
+      prefix: 64,
+    });
+  });
+
+  it('applies ipv4-mapped overrides to ipv4 clients', () => {
+    const subnetOverrides = { '::ffff:203.0.113.0/120': 120 };
+
+    expect(bucketIp('203.0.113.7', { subnetOverrides })).toEqual({
+      ip: '203.0.113.0',
+      prefix: 24,
+    });
+    expect(bucketIp('198.51.100.7', { subnetOverrides })).toEqual({
+      ip: '198.51.100.7',
+      prefix: 32,
+    });
+  });
+
+  it('validates subnet override tables', () => {
+    expect(() =>
+      normalizeIpForBucket('192.0.2.1', { subnetOverrides: { nope: 24 } })
+    ).toThrow(TypeError);
+    expect(() =>
+      normalizeIpForBucket('192.0.2.1', {
+        subnetOverrides: { '192.0.2.0/24': 33 },
+      })
+    ).toThrow(RangeError);
+    expect(() =>
+      normalizeIpForBucket('192.0.2.1', {
+        subnetOverrides: { '2001:db8::/32': 0 },
+      })
+    ).toThrow(RangeError);
+  });
+
+  it('reports the prefix length applied to a bucket', () => {
+    const subnetOverrides = { '2001:db8::/32': 48 };
+
+    expect(bucketIp('2001:db8:1:2::1', { subnetOverrides })).toEqual({
+      ip: '2001:0db8:0001:0000:0000:0000:0000:0000',
+      prefix: 48,
+    });
+    expect(bucketIp('203.0.113.9', {})).toEqual({
+      ip: '203.0.113.9',
+      prefix: 32,
+    });
+    expect(bucketIp('not-an-ip', {})).toEqual({
+      ip: 'not-an-ip',
+      prefix: null,
+    });
+  });
+});
+
+describe('formatIpBucket', () => {
+  const bucket = '2001:0db8:0012:3400:0000:0000:0000:0000';
+
+  it('returns the full form unchanged', () => {
+    expect(formatIpBucket(bucket, 'full')).toBe(bucket);
+    expect(formatIpBucket(null, 'cidr')).toBeNull();
+  });
+
+  it('compresses ipv6 per rfc 5952', () => {
+    expect(formatIpBucket(bucket, 'compressed')).toBe('2001:db8:12:3400::');
+    expect(
+      formatIpBucket('0000:0000:0000:0000:0000:0000:0000:0001', 'compressed')
+    ).toBe('::1');
+    expect(
+      formatIpBucket('0000:0000:0000:0000:0000:0000:0000:0000', 'compressed')
+    ).toBe('::');
+    expect(
+      formatIpBucket('2001:0db8:0000:0001:0001:0001:0001:0001', 'compressed')
+    ).toBe('2001:db8:0:1:1:1:1:1');
+    expect(
+      formatIpBucket('2001:0000:0000:0001:0000:0000:0000:0001', 'compressed')
+    ).toBe('2001:0:0:1::1');
+    expect(
+      formatIpBucket('2001:0db8:0000:0000:0001:0000:0000:0001', 'compressed')
+    ).toBe('2001:db8::1:0:0:1');
+  });
+
+  it('appends the bucket prefix length in cidr form', () => {
+    expect(formatIpBucket(bucket, 'cidr')).toBe('2001:db8:12:3400::/56');
+    expect(formatIpBucket(bucket, 'cidr', 48)).toBe('2001:db8:12:3400::/48');
+    expect(formatIpBucket('203.0.113.0', 'cidr', 24)).toBe('203.0.113.0/24');
+    expect(formatIpBucket('203.0.113.7', 'cidr')).toBe('203.0.113.7/32');
+    expect(formatIpBucket('203.0.113.7', 'compressed')).toBe('203.0.113.7');
+  });
+
+  it('returns values that are not ip literals as is', () => {
+    expect(formatIpBucket('not-an-ip', 'cidr')).toBe('not-an-ip');
+    expect(formatIpBucket('2001::db8::1', 'compressed')).toBe('2001::db8::1');
+  });
 });
@@ -0,0 +1,275 @@
+import { createHash } from 'node:crypto';
+
+import { describe, expect, it } from 'vitest';
+
+import { md5Hex, sha256Hex } from '../src/hash';
+import { computeJa3, computeJa4, fingerprint } from '../src/index';
+
+/**
+ * the chrome hello from the ja4 specification, with grease values added in front of the
+ * ciphers, extensions, groups and versions.
+ */
+const CHROME_CIPHERS = [
+  0x0a0a, 0x1301, 0x1302, 0x1303, 0xc02b, 0xc02f, 0xc02c, 0xc030, 0xcca9,
+  0xcca8, 0xc013, 0xc014, 0x009c, 0x009d, 0x002f, 0x0035,
+];
+
+const SIGNATURE_ALGORITHMS = [
+  0x0403, 0x0804, 0x0401, 0x0503, 0x0805, 0x0501, 0x0806, 0x0601,
+];
+
+const CHROME_JA4 = 't13d1516h2_8daaf6152771_e5627efa2ab1';
+
+function u16(value: number): number[] {
+  return [value >> 8, value & 0xff];
+}
+
+function u16List(values: readonly number[]): number[] {
+  return [...u16(values.length * 2), ...values.flatMap(u16)];
+}
+
+function extension(type: number, data: readonly number[] = []): number[] {
+  return [...u16(type), ...u16(data.length), ...data];
+}
+
+function ascii(text: string): number[] {
+  return Array.from(text, (c) => c.charCodeAt(0));
+}
+
+const sni = (host: string) => {
+  const name = [0x00, ...u16(host.length), ...ascii(host)];
+  return extension(0x0000, [...u16(name.length), ...name]);
+};
+
+const alpn = (...protocols: string[]) => {
+  const list = protocols.flatMap((p) => [p.length, ...ascii(p)]);
+  return extension(0x0010, [...u16(list.length), ...list]);
+};
+
+interface HelloOptions {
+  readonly ciphers?: readonly number[];
+  readonly extensions?: readonly (readonly number[])[];
+  readonly record?: boolean;
+}
+
+function chromeExtensions(): number[][] {
+  return [
+    extension(0x1a1a),
+    sni('example.com'),
+    extension(0x0017),
+    extension(0xff01, [0x00]),
+    extension(0x000a, u16List([0x2a2a, 0x001d, 0x0017, 0x0018])),
+    extension(0x000b, [0x01, 0x00]),
+    extension(0x0023),
+    alpn('h2', 'http/1.1'),
+    extension(0x0005, [0x01, 0x00, 0x00, 0x00, 0x00]),
+    extension(0x000d, u16List(SIGNATURE_ALGORITHMS)),
+    extension(0x0012),
+    extension(0x0033, [0x00, 0x00]),
+    extension(0x002d, [0x01, 0x01]),
+    extension(0x002b, [0x06, 0x3a, 0x3a, 0x03, 0x04, 0x03, 0x03]),
+    extension(0x001b, [0x02, 0x00, 0x02]),
+    extension(0x4469, [0x00, 0x03, 0x02, 0x68, 0x32]),
+    extension(0x0015, [0x00, 0x00]),
+  ];
+}
+
+function clientHello(options: HelloOptions = {}): Uint8Array {
+  const extensions = (options.extensions ?? chromeExtensions()).flat();
+  const body = [
+    ...u16(0x0303),
+    ...new Array<number>(32).fill(7),
+    0,
+    ...u16List(options.ciphers ?? CHROME_CIPHERS),
+    1,
+    0,
+    ...u16(extensions.length),
+    ...extensions,
+  ];
+  const handshake = [0x01, 0, ...u16(body.length), ...body];
+
+  return Uint8Array.from(
+    options.record === false
+      ? handshake
+      : [0x16, 0x03, 0x01, ...u16(handshake.length), ...handshake]
+  );
+}
+
+describe('sha256Hex and md5Hex', () => {
+  it('match node:crypto', () => {
+    for (const length of [0, 3, 55, 56, 63, 64, 65, 200]) {
+      const data = Uint8Array.from({ length }, (_, i) => (i * 31 + 7) & 0xff);
+
+      expect(sha256Hex(data)).toBe(
+        createHash('sha256').update(data).digest('hex')
+      );
+      expect(md5Hex(data)).toBe(createHash('md5').update(data).digest('hex'));
+    }
+  });
+});
+
+describe('computeJa4', () => {
+  it('matches the reference fingerprint', () => {
+    expect(computeJa4(clientHello())).toBe(CHROME_JA4);
+  });
+
+  it('accepts a bare handshake message', () => {
+    expect(computeJa4(clientHello({ record: false }))).toBe(CHROME_JA4);
+  });
+
+  it('does not depend on extension order', () => {
+    const shuffled = chromeExtensions().reverse();
+
+    expect(computeJa4(clientHello({ extensions: shuffled }))).toBe(CHROME_JA4);
+  });
+
+  it('marks a missing sni and alpn', () => {
+    const ja4 = computeJa4(
+      clientHello({
+        extensions: [extension(0x002b, [0x02, 0x03, 0x03])],
+      })
+    );
+
+    expect(ja4).toMatch(/^t12i150100_8daaf6152771_[0-9a-f]{12}$/);
+  });
+
+  it('falls back to hex for a non-alphanumeric alpn', () => {
+    const ja4 = computeJa4(clientHello({ extensions: [alpn('\x01h2\xff')] }));
+
+    expect(ja4?.slice(0, 10)).toBe('t12i15010f');
+  });
+
+  it('zeroes empty hash sections', () => {
+    expect(computeJa4(clientHello({ ciphers: [], extensions: [] }))).toBe(
+      't12i000000_000000000000_000000000000'
+    );
+  });
+
+  it('rejects truncated or foreign data', () => {
+    const hello = clientHello();
+
+    expect(computeJa4(hello.subarray(0, hello.length - 1))).toBeNull();
+    expect(computeJa4(Uint8Array.from([0x16, 0x03, 0x01]))).toBeNull();
+    expect(computeJa4(new TextEncoder().encode('GET / HTTP/1.1'))).toBeNull();
+  });
+});
+
+describe('computeJa3', () => {
+  it('lists fields in order without grease', () => {
+    expect(computeJa3(clientHello())).toBe(
+      '771,' +
+        '4865-4866-4867-49195-49199-49196-49200-52393-52392-49171-49172-156-157-47-53,' +
+        '0-23-65281-10-11-35-16-5-13-18-51-45-43-27-17513-21,' +
+        '29-23-24,' +
+        '0'
+    );
+  });
+
+  it('depends on extension order', () => {
+    const shuffled = chromeExtensions().reverse();
+
+    expect(computeJa3(clientHello({ extensions: shuffled }))).not.toBe(
+      computeJa3(clientHello())
+    );
+  });
+});
+
+describe('fingerprint with includeTlsFingerprint', () => {
+  function request(
+    headers: Record<string, string> = {},
+    extra: { clientHello?: Uint8Array; cf?: object } = {}
+  ) {
+    return {
+      headers: new Headers({ 'x-forwarded-for': '203.0.113.7', ...headers }),
+      ...extra,
+    };
+  }
+
+  it('computes the fingerprint from the clienthello', () => {
+    const result = fingerprint(request({}, { clientHello: clientHello() }), {
+      includeTlsFingerprint: true,
+    });
+
+    expect(result.traits.tlsFingerprint).toBe(CHROME_JA4);
+    expect(result.parts).toEqual(['ip:203.0.113.7', `tls:${CHROME_JA4}`]);
+  });
+
+  it('hashes the ja3 string', () => {
+    const hello = clientHello();
+    const result = fingerprint(request({}, { clientHello: hello }), {
+      includeTlsFingerprint: true,
+      tlsFingerprintFormat: 'ja3',
+    });
+
+    expect(result.traits.tlsFingerprint).toBe(
+      createHash('md5').update(computeJa3(hello)!).digest('hex')
+    );
+  });
+
+  it('reads request.cf before headers', () => {
+    const result = fingerprint(
+      request(
+        { 'cf-ja4': 't13d1517h2_8daaf6152771_b0da82dd1658' },
+        { cf: { botManagement: { ja4: CHROME_JA4.toUpperCase() } } }
+      ),
+      { includeTlsFingerprint: true }
+    );
+
+    expect(result.traits.tlsFingerprint).toBe(CHROME_JA4);
+  });
+
+  it('reads the first well-formed header', () => {
+    const ja3 = 'cd08e31494f9531f560d64c695473da9';
+    const result = fingerprint(
+      request({
+        'x-ja3': 'not-a-hash',
+        'cloudfront-viewer-ja3-fingerprint': ja3,
+      }),
+      {
+        includeTlsFingerprint: true,
+        tlsFingerprintFormat: 'ja3',
+        tlsFingerprintHeaders: ['x-ja3', 'cloudfront-viewer-ja3-fingerprint'],
+      }
+    );
+
+    expect(result.traits.tlsFingerprint).toBe(ja3);
+  });
+
+  it('ignores a fingerprint of the other format', () => {
+    const result = fingerprint(request({ 'cf-ja4': CHROME_JA4 }), {
+      includeTlsFingerprint: true,
+      tlsFingerprintFormat: 'ja3',
+    });
+
+    expect(result.traits.tlsFingerprint).toBeNull();
+    expect(result.parts).toEqual(['ip:203.0.113.7', 'tls:']);
+  });
+
+  it('leaves the fingerprint out by default', () => {
+    const result = fingerprint(request({ 'cf-ja4': CHROME_JA4 }));
+
+    expect(result.traits.tlsFingerprint).toBeNull();
+    expect(result.parts).toEqual(['ip:203.0.113.7']);
+  });
+
+  it('sits between the language and method segments', () => {
+    const result = fingerprint(
+      {
+        ...request({ 'cf-ja4': CHROME_JA4, 'accept-language': 'en' }),
+        method: 'GET',
+      },
+      {
+        includeAcceptLanguage: true,
+        includeTlsFingerprint: true,
+        includeMethod: true,
+      }
+    );
+
+    expect(result.parts).toEqual([
+      'ip:203.0.113.7',
+      'lang:en',
+      `tls:${CHROME_JA4}`,
+      'method:GET',
+    ]);
+  });
+});
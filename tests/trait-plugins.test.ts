@@ -0,0 +1,214 @@
+import { describe, expect, it } from 'vitest';
+
+import { fingerprint, fingerprintHierarchy } from '../src/index';
+import type { TraitPlugin } from '../src/index';
+
+const tenant: TraitPlugin<string> = {
+  name: 'tenant',
+  extract: (source) => source.headers.get('x-tenant-id'),
+  normalize: (value) => value.trim().toLowerCase() || null,
+};
+
+const appVersion: TraitPlugin<string> = {
+  name: 'app-version',
+  extract: (source) => source.headers.get('x-app-version'),
+  normalize: (value) => /^\d+/.exec(value)?.[0] ?? null,
+};
+
+const device: TraitPlugin = {
+  name: 'device',
+  extract: (source) => source.headers.get('x-device-id'),
+  role: 'anchor',
+};
+
+function request(headers: Record<string, string> = {}) {
+  return {
+    headers: new Headers({ 'x-forwarded-for': '203.0.113.7', ...headers }),
+  };
+}
+
+describe('fingerprint with traitPlugins', () => {
+  it('reports normalized values on traits', () => {
+    const result = fingerprint(
+      request({ 'x-tenant-id': ' Acme ', 'x-app-version': '5.2.1' }),
+      { traitPlugins: [tenant, appVersion] }
+    );
+
+    expect(result.traits.plugins).toEqual({
+      'app-version': '5',
+      tenant: 'acme',
+    });
+  });
+
+  it('orders scope segments by name, not registration', () => {
+    const headers = { 'x-tenant-id': 'acme', 'x-app-version': '5.2.1' };
+    const a = fingerprint(request(headers), {
+      traitPlugins: [tenant, appVersion],
+    });
+    const b = fingerprint(request(headers), {
+      traitPlugins: [appVersion, tenant],
+    });
+
+    expect(a.parts).toEqual(['ip:203.0.113.7', 'app-version:5', 'tenant:acme']);
+    expect(b.hash).toBe(a.hash);
+  });
+
+  it('uses empty segments for unknown scope values', () => {
+    const result = fingerprint(request({ 'x-app-version': 'beta' }), {
+      traitPlugins: [tenant, appVersion],
+    });
+
+    expect(result.traits.plugins).toEqual({
+      'app-version': null,
+      tenant: null,
+    });
+    expect(result.parts).toEqual(['ip:203.0.113.7', 'app-version:', 'tenant:']);
+  });
+
+  it('anchors on a known value and falls back to the ip', () => {
+    const anchored = fingerprint(request({ 'x-device-id': 'd-42' }), {
+      traitPlugins: [device, tenant],
+    });
+    const unknown = fingerprint(request(), { traitPlugins: [device] });
+
+    expect(anchored.parts).toEqual(['device:d-42', 'tenant:']);
+    expect(unknown.parts).toEqual(['ip:203.0.113.7']);
+  });
+
+  it('combines with edge anchors and yields to the actor', () => {
+    const source = {
+      ...request({ 'x-device-id': 'd-42' }),
+      cf: { asn: 13335 },
+    };
+
+    expect(
+      fingerprint(source, {
+        edgeTraits: { asn: 'anchor' },
+        traitPlugins: [device],
+      }).parts
+    ).toEqual(['asn:13335', 'device:d-42']);
+    expect(
+      fingerprint(source, {
+        actorId: 'user-1',
+        traitPlugins: [device],
+      }).parts
+    ).toEqual(['actor:user-1']);
+  });
+
+  it('places scope segments before method and path', () => {
+    const result = fingerprint(
+      {
+        ...request({ 'x-tenant-id': 'acme', 'accept-language': 'en' }),
+        method: 'POST',
+        url: 'https://example.com/login',
+      },
+      {
+        includeAcceptLanguage: true,
+        includeMethod: true,
+        includePath: true,
+        traitPlugins: [tenant],
+      }
+    );
+
+    expect(result.parts).toEqual([
+      'ip:203.0.113.7',
+      'lang:en',
+      'tenant:acme',
+      'method:POST',
+      'path:/login',
+    ]);
+  });
+
+  it('stringifies numbers and booleans by default', () => {
+    const result = fingerprint(request(), {
+      traitPlugins: [
+        { name: 'count', extract: () => 3 },
+        { name: 'flag', extract: () => false },
+        { name: 'blank', extract: () => '  ' },
+        { name: 'object', extract: () => ({}) },
+        { name: 'nan', extract: () => Number.NaN },
+      ],
+    });
+
+    expect(result.traits.plugins).toEqual({
+      blank: null,
+      count: '3',
+      flag: 'false',
+      nan: null,
+      object: null,
+    });
+  });
+
+  it('drops non-string values returned by normalize', () => {
+    const result = fingerprint(request(), {
+      traitPlugins: [
+        {
+          name: 'count',
+          extract: () => 'x',
+          normalize: () => 3 as unknown as string,
+        },
+        {
+          name: 'object',
+          extract: () => 'x',
+          normalize: () => ({}) as unknown as string,
+        },
+      ],
+    });
+
+    expect(result.traits.plugins).toEqual({ count: null, object: null });
+    expect(result.parts).toEqual(['ip:203.0.113.7', 'count:', 'object:']);
+  });
+
+  it('keeps plugin scopes on every hierarchy level', () => {
+    const results = fingerprintHierarchy(
+      request({ 'x-tenant-id': 'acme' }),
+      { ipv4: [32, 24] },
+      { traitPlugins: [tenant] }
+    );
+
+    expect(results.map((result) => result.parts)).toEqual([
+      ['ip:203.0.113.7', 'level:ipv4/32', 'tenant:acme'],
+      ['ip:203.0.113.0', 'level:ipv4/24', 'tenant:acme'],
+    ]);
+  });
+
+  it('extracts plugin values once across hierarchy levels', () => {
+    let calls = 0;
+    const counted: TraitPlugin<string> = {
+      ...tenant,
+      extract: (source) => {
+        calls++;
+        return tenant.extract(source);
+      },
+    };
+
+    const results = fingerprintHierarchy(
+      request({ 'x-tenant-id': 'acme' }),
+      { ipv4: [32, 24, 16] },
+      { traitPlugins: [counted] }
+    );
+
+    expect(results).toHaveLength(3);
+    expect(calls).toBe(1);
+  });
+
+  it('rejects invalid, reserved and duplicate names', () => {
+    const plugin = (name: string): TraitPlugin => ({
+      name,
+      extract: () => null,
+    });
+
+    expect(() =>
+      fingerprint(request(), { traitPlugins: [plugin('Tenant')] })
+    ).toThrow(new TypeError('invalid trait plugin name: Tenant'));
+    expect(() =>
+      fingerprint(request(), { traitPlugins: [plugin('ua')] })
+    ).toThrow(new TypeError('reserved trait plugin name: ua'));
+    expect(() =>
+      fingerprint(request(), { traitPlugins: [plugin('colo')] })
+    ).toThrow(new TypeError('reserved trait plugin name: colo'));
+    expect(() =>
+      fingerprint(request(), { traitPlugins: [tenant, tenant] })
+    ).toThrow(new TypeError('duplicate trait plugin name: tenant'));
+  });
+});
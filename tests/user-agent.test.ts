@@ -0,0 +1,138 @@
+import { describe, expect, it } from 'vitest';
+
+import { fingerprint } from '../src/index';
+import { normalizeUserAgent } from '../src/user-agent';
+
+const CHROME_WINDOWS =
+  'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/124.0.6367.91 Safari/537.36';
+const CHROME_WINDOWS_PATCH =
+  'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/124.0.6367.207 Safari/537.36';
+
+describe('normalizeUserAgent', () => {
+  it.each([
+    [CHROME_WINDOWS, 'chrome/124 windows'],
+    [
+      'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/124.0.0.0 Safari/537.36 Edg/124.0.2478.80',
+      'edge/124 windows',
+    ],
+    [
+      'Mozilla/5.0 (X11; Linux x86_64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/123.0.0.0 Safari/537.36 OPR/109.0.0.0',
+      'opera/109 linux',
+    ],
+    [
+      'Mozilla/5.0 (Linux; Android 14; SM-S921B) AppleWebKit/537.36 (KHTML, like Gecko) SamsungBrowser/24.0 Chrome/117.0.0.0 Mobile Safari/537.36',
+      'samsung/24 android',
+    ],
+    [
+      'Mozilla/5.0 (X11; Ubuntu; Linux x86_64; rv:125.0) Gecko/20100101 Firefox/125.0',
+      'firefox/125 linux',
+    ],
+    [
+      'Mozilla/5.0 (Macintosh; Intel Mac OS X 14_4_1) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.4.1 Safari/605.1.15',
+      'safari/17 macos',
+    ],
+    [
+      'Mozilla/5.0 (iPhone; CPU iPhone OS 17_4 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.4 Mobile/15E148 Safari/604.1',
+      'safari/17 ios',
+    ],
+    [
+      'Mozilla/5.0 (iPhone; CPU iPhone OS 17_4 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) CriOS/124.0.6367.88 Mobile/15E148 Safari/604.1',
+      'chrome/124 ios',
+    ],
+    [
+      'Mozilla/5.0 (X11; CrOS x86_64 14541.0.0) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/124.0.0.0 Safari/537.36',
+      'chrome/124 chromeos',
+    ],
+    ['curl/8.4.0', 'curl/8 other'],
+    ['python-requests/2.31.0', 'python-requests/2 other'],
+    ['Go-http-client/1.1', 'go-http-client/1 other'],
+    ['okhttp', 'okhttp other'],
+    ['Mozilla/5.0 (compatible; MSIE 9.0; Windows NT 6.1)', 'other windows'],
+    [
+      'Mozilla/5.0 (X11; Linux x86_64) AppleWebKit/537.36 (KHTML, like Gecko) HeadlessChrome/124.0.6367.60 Safari/537.36',
+      'headlesschrome/124 linux',
+    ],
+    [
+      'Mozilla/5.0 (compatible; Googlebot/2.1; +http://www.google.com/bot.html)',
+      'googlebot/2 other',
+    ],
+    ['Mozilla/5.0 (X11; Linux x86_64) Scraper/3.1', 'scraper/3 linux'],
+    ['???', 'other other'],
+  ])('normalizes %s', (userAgent, expected) => {
+    expect(normalizeUserAgent(userAgent)).toBe(expected);
+  });
+});
+
+describe('fingerprint with includeUserAgent', () => {
+  function request(userAgent?: string) {
+    const headers = new Headers({ 'x-forwarded-for': '203.0.113.7' });
+    if (userAgent !== undefined) headers.set('user-agent', userAgent);
+    return { headers };
+  }
+
+  it('leaves the user-agent out by default', () => {
+    const result = fingerprint(request(CHROME_WINDOWS));
+
+    expect(result.traits.userAgent).toBeNull();
+    expect(result.parts).toEqual(['ip:203.0.113.7']);
+  });
+
+  it('scopes the key by the normalized user-agent', () => {
+    const result = fingerprint(request(CHROME_WINDOWS), {
+      includeUserAgent: true,
+    });
+
+    expect(result.traits.userAgent).toBe('chrome/124 windows');
+    expect(result.parts).toEqual(['ip:203.0.113.7', 'ua:chrome/124 windows']);
+  });
+
+  it('keeps the key across patch updates', () => {
+    const a = fingerprint(request(CHROME_WINDOWS), { includeUserAgent: true });
+    const b = fingerprint(request(CHROME_WINDOWS_PATCH), {
+      includeUserAgent: true,
+    });
+
+    expect(b.hash).toBe(a.hash);
+  });
+
+  it('uses the trimmed header in raw mode', () => {
+    const a = fingerprint(request(` ${CHROME_WINDOWS} `), {
+      includeUserAgent: true,
+      userAgentFormat: 'raw',
+    });
+    const b = fingerprint(request(CHROME_WINDOWS_PATCH), {
+      includeUserAgent: true,
+      userAgentFormat: 'raw',
+    });
+
+    expect(a.traits.userAgent).toBe(CHROME_WINDOWS);
+    expect(b.hash).not.toBe(a.hash);
+  });
+
+  it('uses an empty segment without a user-agent', () => {
+    const result = fingerprint(request('  '), { includeUserAgent: true });
+
+    expect(result.traits.userAgent).toBeNull();
+    expect(result.parts).toEqual(['ip:203.0.113.7', 'ua:']);
+  });
+
+  it('places the user-agent before method and path', () => {
+    const result = fingerprint(
+      new Request('https://example.com/login', {
+        method: 'POST',
+        headers: {
+          'x-forwarded-for': '203.0.113.7',
+          'user-agent': 'curl/8.4.0',
+        },
+      }),
+      { includeUserAgent: true, includeMethod: true, includePath: true }
+    );
+
+    expect(result.parts).toEqual([
+      'ip:203.0.113.7',
+      'ua:curl/8 other',
+      'method:POST',
+      'path:/login',
+    ]);
+  });
+});